@@ -5,12 +5,35 @@ export const VALIDATION_RULES = {
   MIN_DIMENSIONS: 32,
   MAX_WEIGHT: 10000,
   MIN_WEIGHT: 1,
+  MAX_CONDITIONAL_WEIGHT: 1,
+  MIN_CONDITIONAL_WEIGHT: 0,
   MAX_TRAIT_TYPES: 50,
   MAX_TRAITS_PER_TYPE: 1000,
   MAX_NFT_COUNT: 1000000,
   MIN_NFT_COUNT: 1,
   SUPPORTED_IMAGE_FORMATS: ['.png'],
-  SUPPORTED_ANIMATION_FORMATS: ['.gif', '.mp4'],
+  // A leaf may hold one animated file instead of PNG frames; a .png counts when it's an APNG
+  ANIMATED_SOURCE_FORMATS: ['.gif', '.webp', '.png'],
+  TRAIT_MANIFEST_FILE: 'trait.json',
+  FRAME_TIMING_FILE: 'timing.json',
+  SPRITE_SHEET_FILE: 'sheet.png',
+  SPRITE_SHEET_ATLAS_FILE: 'sheet.json',
+  TRAIT_PART_NAMES: ['front', 'back'], // render-part folders recognised without a trait.json
+  LAYER_ANCHORS: ['top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right'],
+  // Blend modes sharp can composite with (both spellings of colour/color are accepted)
+  BLEND_MODES: [
+    'clear', 'source', 'over', 'in', 'out', 'atop', 'dest', 'dest-over', 'dest-in', 'dest-out', 'dest-atop',
+    'xor', 'add', 'saturate', 'multiply', 'screen', 'overlay', 'darken', 'lighten', 'colour-dodge', 'color-dodge',
+    'colour-burn', 'color-burn', 'hard-light', 'soft-light', 'difference', 'exclusion'
+  ],
+  SUPPORTED_ANIMATION_FORMATS: ['.gif', '.mp4', '.webp', '.png'],
+  // output_format -> animation file extension and MIME type (APNG files keep the .png extension)
+  ANIMATION_OUTPUTS: {
+    gif: { extension: 'gif', mime: 'image/gif' },
+    mp4: { extension: 'mp4', mime: 'video/mp4' },
+    webp: { extension: 'webp', mime: 'image/webp' },
+    apng: { extension: 'png', mime: 'image/apng' }
+  },
   MAX_MEMORY_USAGE: 8 * 1024 * 1024 * 1024, // 8GB
   MAX_WORKER_THREADS: 32,
   MIN_WORKER_THREADS: 1
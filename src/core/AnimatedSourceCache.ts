@@ -0,0 +1,377 @@
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs-extra';
+import sharp from 'sharp';
+import { GeneratorError, ErrorType } from '../types/errors';
+import { SheetGrid, SheetAtlasFrame, SpriteSheetManifest } from '../types/traits';
+import { VALIDATION_RULES } from '../constants/validation';
+import logger from '../utils/logger';
+
+// The frames of an animated layer source, written out as PNGs in the cache
+export interface ExpandedAnimation {
+  dir: string;
+  frames: string[];
+  durations: number[]; // ms per frame; 0 where the file gives no delay
+  width: number;
+  height: number;
+}
+
+interface ApngFrame {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  delay: number;
+  dispose: number; // 0 none, 1 clear to transparent, 2 restore the previous canvas
+  blend: number; // 0 replace, 1 draw over
+  data: Buffer[];
+}
+
+// Where one frame sits in a sprite sheet, and where it goes in the (untrimmed) frame
+interface SheetCell {
+  left: number;
+  top: number;
+  width: number; // area in the sheet, before undoing any rotation
+  height: number;
+  rotated: boolean;
+  x: number;
+  y: number;
+  frameWidth: number;
+  frameHeight: number;
+  duration: number;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+// Chunks before the image data that every frame of an APNG shares
+const APNG_SHARED_CHUNKS = ['PLTE', 'tRNS', 'gAMA', 'cHRM', 'sRGB', 'iCCP', 'sBIT'];
+const INDEX_FILE = 'frames.json';
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function readChunks(data: Buffer): Array<{ type: string; data: Buffer }> {
+  const chunks: Array<{ type: string; data: Buffer }> = [];
+  if (!data.subarray(0, 8).equals(PNG_SIGNATURE)) return chunks;
+  for (let offset = 8; offset + 8 <= data.length;) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('ascii', offset + 4, offset + 8);
+    chunks.push({ type, data: data.subarray(offset + 8, offset + 8 + length) });
+    offset += length + 12;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+}
+
+function writeChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+// A PNG with an animation control chunk ahead of its image data. Only the chunk headers up
+// to the first IDAT are read, since every PNG frame of every layer gets probed
+export async function isAnimatedPng(file: string): Promise<boolean> {
+  const handle = await fs.promises.open(file, 'r');
+  try {
+    const header = Buffer.alloc(8);
+    if ((await handle.read(header, 0, 8, 0)).bytesRead < 8 || !header.equals(PNG_SIGNATURE)) return false;
+    for (let offset = 8; (await handle.read(header, 0, 8, offset)).bytesRead === 8;) {
+      const type = header.toString('ascii', 4, 8);
+      if (type === 'acTL') return true;
+      if (type === 'IDAT' || type === 'IEND') return false;
+      offset += header.readUInt32BE(0) + 12;
+    }
+    return false;
+  } finally {
+    await handle.close();
+  }
+}
+
+function atlasCells(frames: SheetAtlasFrame[] | Record<string, SheetAtlasFrame>): SheetCell[] {
+  // Hash atlases keep their frames in export order, like the array form
+  return (Array.isArray(frames) ? frames : Object.values(frames)).map(({ frame, rotated, spriteSourceSize, sourceSize, duration }) => ({
+    left: frame.x,
+    top: frame.y,
+    width: rotated ? frame.h : frame.w,
+    height: rotated ? frame.w : frame.h,
+    rotated: rotated ?? false,
+    x: spriteSourceSize?.x ?? 0,
+    y: spriteSourceSize?.y ?? 0,
+    frameWidth: sourceSize?.w ?? frame.w,
+    frameHeight: sourceSize?.h ?? frame.h,
+    duration: duration ?? 0
+  }));
+}
+
+// Without a grid spec the sheet is one row of square frames
+function gridCells(grid: SheetGrid, sheetWidth: number, sheetHeight: number, sheetName: string): SheetCell[] {
+  const rows = grid.rows ?? (grid.frame_height ? Math.floor(sheetHeight / grid.frame_height) : 1);
+  const frameHeight = grid.frame_height ?? sheetHeight / rows;
+  const frameWidth = grid.frame_width ?? (grid.columns ? sheetWidth / grid.columns : frameHeight);
+  const columns = grid.columns ?? Math.floor(sheetWidth / frameWidth);
+  const count = grid.count ?? rows * columns;
+
+  // Derived frame sizes must divide the sheet exactly; given ones may leave a margin
+  const derivedWidthFits = grid.frame_width !== undefined || grid.columns !== undefined || columns * frameWidth === sheetWidth;
+  if (!Number.isInteger(frameWidth) || !Number.isInteger(frameHeight) || columns < 1 || rows < 1 || !derivedWidthFits ||
+    columns * frameWidth > sheetWidth || rows * frameHeight > sheetHeight || count > rows * columns) {
+    throw new GeneratorError(
+      ErrorType.VALIDATION_ERROR,
+      `${sheetName} (${sheetWidth}x${sheetHeight}) doesn't divide into a grid of ${count} equal frames; describe its grid in sheet.json`,
+      { sheetWidth, sheetHeight, grid }
+    );
+  }
+
+  return Array.from({ length: count }, (_, i) => ({
+    left: (i % columns) * frameWidth,
+    top: Math.floor(i / columns) * frameHeight,
+    width: frameWidth,
+    height: frameHeight,
+    rotated: false,
+    x: 0,
+    y: 0,
+    frameWidth,
+    frameHeight,
+    duration: grid.duration ?? 0
+  }));
+}
+
+/**
+ * Expands animated GIF, APNG and WebP layer sources, and sprite sheets, into numbered PNG frames
+ * plus their delays, cached under the SHA-256 of the file (and sheet layout) so an edited source
+ * is expanded again. Frames are full canvases with every disposal and blend already applied.
+ */
+export class AnimatedSourceCache {
+  private cacheDir: string;
+
+  constructor(cacheDir: string = path.join(process.cwd(), '.cache', 'layers')) {
+    this.cacheDir = cacheDir;
+  }
+
+  async expand(sourcePath: string): Promise<ExpandedAnimation> {
+    const source = await fs.readFile(sourcePath);
+    return this.cached(source, sourcePath, '', scratch => path.extname(sourcePath).toLowerCase() === '.png'
+      ? this.expandApng(source, sourcePath, scratch)
+      : this.expandWithSharp(source, sourcePath, scratch));
+  }
+
+  // Slices a sprite sheet by its atlas or grid; with neither, it's one row of square frames
+  async slice(sheetPath: string, layout: SpriteSheetManifest | null): Promise<ExpandedAnimation> {
+    const source = await fs.readFile(sheetPath);
+    return this.cached(source, sheetPath, JSON.stringify(layout ?? {}), scratch => this.sliceSheet(source, sheetPath, layout, scratch));
+  }
+
+  private async cached(
+    source: Buffer,
+    sourcePath: string,
+    variant: string,
+    build: (scratch: string) => Promise<Omit<ExpandedAnimation, 'dir'>>
+  ): Promise<ExpandedAnimation> {
+    const dir = path.join(this.cacheDir, crypto.createHash('sha256').update(source).update(variant).digest('hex'));
+    const indexPath = path.join(dir, INDEX_FILE);
+    if (await fs.pathExists(indexPath)) {
+      return { dir, ...await fs.readJson(indexPath) };
+    }
+
+    // Frames land in a scratch folder first, so an interrupted run never leaves a partial cache entry
+    const scratch = `${dir}.tmp-${process.pid}`;
+    await fs.emptyDir(scratch);
+    try {
+      const index = await build(scratch);
+      await fs.writeJson(path.join(scratch, INDEX_FILE), index, { spaces: 2 });
+      await fs.move(scratch, dir, { overwrite: true });
+      logger.debug('Expanded animated layer source', { sourcePath, frames: index.frames.length, dir });
+      return { dir, ...index };
+    } finally {
+      await fs.remove(scratch);
+    }
+  }
+
+  private async sliceSheet(
+    source: Buffer,
+    sheetPath: string,
+    layout: SpriteSheetManifest | null,
+    outputDir: string
+  ): Promise<Omit<ExpandedAnimation, 'dir'>> {
+    const { width: sheetWidth = 0, height: sheetHeight = 0 } = await sharp(source).metadata();
+    const sheetName = path.basename(sheetPath);
+    const cells = layout?.frames ? atlasCells(layout.frames) : gridCells(layout?.grid ?? {}, sheetWidth, sheetHeight, sheetName);
+    const width = cells[0]?.frameWidth ?? 0;
+    const height = cells[0]?.frameHeight ?? 0;
+    this.checkSize(sheetPath, cells.length, width, height);
+
+    const frames: string[] = [];
+    for (const [i, cell] of cells.entries()) {
+      if (cell.left + cell.width > sheetWidth || cell.top + cell.height > sheetHeight) {
+        throw new GeneratorError(
+          ErrorType.VALIDATION_ERROR,
+          `Frame ${i + 1} of ${sheetName} lies outside the ${sheetWidth}x${sheetHeight} sheet`,
+          { sheetPath, frame: i + 1 }
+        );
+      }
+      if (cell.frameWidth !== width || cell.frameHeight !== height) {
+        throw new GeneratorError(
+          ErrorType.VALIDATION_ERROR,
+          `Frame ${i + 1} of ${sheetName} is ${cell.frameWidth}x${cell.frameHeight}, but the first frame is ${width}x${height}`,
+          { sheetPath, frame: i + 1 }
+        );
+      }
+
+      const extracted = await sharp(source).extract({ left: cell.left, top: cell.top, width: cell.width, height: cell.height }).png().toBuffer();
+      // Atlas tools store rotated sprites turned clockwise
+      const sprite = cell.rotated ? await sharp(extracted).rotate(270).png().toBuffer() : extracted;
+      const pixels = await sharp({ create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+        .composite([{ input: sprite, left: cell.x, top: cell.y }])
+        .raw()
+        .toBuffer();
+      frames.push(await this.writeFrame(outputDir, i, cells.length, pixels, width, height));
+    }
+    return { frames, durations: cells.map(cell => cell.duration), width, height };
+  }
+
+  // libvips decodes GIF and WebP animations into one tall image of fully composited pages
+  private async expandWithSharp(source: Buffer, sourcePath: string, outputDir: string): Promise<Omit<ExpandedAnimation, 'dir'>> {
+    const metadata = await sharp(source, { animated: true }).metadata();
+    const width = metadata.width ?? 0;
+    const height = metadata.pageHeight ?? metadata.height ?? 0;
+    const pages = metadata.pages ?? 1;
+    this.checkSize(sourcePath, pages, width, height);
+
+    const pixels = await sharp(source, { animated: true }).ensureAlpha().raw({ depth: 'uchar' }).toBuffer();
+    const pageSize = width * height * 4;
+    const frames = await Promise.all(Array.from({ length: pages }, (_, i) =>
+      this.writeFrame(outputDir, i, pages, pixels.subarray(i * pageSize, (i + 1) * pageSize), width, height)
+    ));
+    return { frames, durations: frames.map((_, i) => metadata.delay?.[i] ?? 0), width, height };
+  }
+
+  private async expandApng(source: Buffer, sourcePath: string, outputDir: string): Promise<Omit<ExpandedAnimation, 'dir'>> {
+    const chunks = readChunks(source);
+    const header = chunks.find(chunk => chunk.type === 'IHDR')?.data;
+    if (!header) {
+      throw new GeneratorError(ErrorType.VALIDATION_ERROR, `${path.basename(sourcePath)} is not a PNG file`, { sourcePath });
+    }
+    const width = header.readUInt32BE(0);
+    const height = header.readUInt32BE(4);
+
+    const shared = chunks.slice(0, chunks.findIndex(chunk => chunk.type === 'IDAT')).filter(chunk => APNG_SHARED_CHUNKS.includes(chunk.type));
+    const apngFrames: ApngFrame[] = [];
+    for (const chunk of chunks) {
+      const current = apngFrames[apngFrames.length - 1];
+      if (chunk.type === 'fcTL') {
+        const denominator = chunk.data.readUInt16BE(22) || 100;
+        apngFrames.push({
+          width: chunk.data.readUInt32BE(4),
+          height: chunk.data.readUInt32BE(8),
+          x: chunk.data.readUInt32BE(12),
+          y: chunk.data.readUInt32BE(16),
+          delay: Math.round(chunk.data.readUInt16BE(20) * 1000 / denominator),
+          dispose: chunk.data.readUInt8(24),
+          blend: chunk.data.readUInt8(25),
+          data: []
+        });
+      } else if (chunk.type === 'IDAT') {
+        // Image data before the first frame control is a default image outside the animation
+        current?.data.push(chunk.data);
+      } else if (chunk.type === 'fdAT') {
+        current?.data.push(chunk.data.subarray(4));
+      }
+    }
+    this.checkSize(sourcePath, apngFrames.length, width, height);
+
+    const canvas = Buffer.alloc(width * height * 4);
+    const frames: string[] = [];
+    for (const [i, frame] of apngFrames.entries()) {
+      if (frame.data.length === 0 || frame.x + frame.width > width || frame.y + frame.height > height) {
+        throw new GeneratorError(
+          ErrorType.VALIDATION_ERROR,
+          `Frame ${i + 1} of ${path.basename(sourcePath)} has no image data or lies outside the ${width}x${height} canvas`,
+          { sourcePath, frame: i + 1 }
+        );
+      }
+
+      const frameHeader = Buffer.from(header);
+      frameHeader.writeUInt32BE(frame.width, 0);
+      frameHeader.writeUInt32BE(frame.height, 4);
+      const png = Buffer.concat([
+        PNG_SIGNATURE,
+        writeChunk('IHDR', frameHeader),
+        ...shared.map(chunk => writeChunk(chunk.type, chunk.data)),
+        writeChunk('IDAT', Buffer.concat(frame.data)),
+        writeChunk('IEND', Buffer.alloc(0))
+      ]);
+      const pixels = await sharp(png).ensureAlpha().raw({ depth: 'uchar' }).toBuffer();
+
+      const previous = frame.dispose === 2 ? Buffer.from(canvas) : null;
+      this.drawRegion(canvas, width, frame, pixels);
+      frames.push(await this.writeFrame(outputDir, i, apngFrames.length, canvas, width, height));
+
+      if (previous) {
+        previous.copy(canvas);
+      } else if (frame.dispose === 1) {
+        this.drawRegion(canvas, width, frame, null);
+      }
+    }
+    return { frames, durations: apngFrames.map(frame => frame.delay), width, height };
+  }
+
+  // Replaces (or, with blend 1, draws over) the frame's region of the canvas; null pixels clear it
+  private drawRegion(canvas: Buffer, canvasWidth: number, frame: ApngFrame, pixels: Buffer | null): void {
+    for (let row = 0; row < frame.height; row++) {
+      for (let column = 0; column < frame.width; column++) {
+        const target = ((frame.y + row) * canvasWidth + frame.x + column) * 4;
+        const source = (row * frame.width + column) * 4;
+        if (!pixels) {
+          canvas.fill(0, target, target + 4);
+          continue;
+        }
+        const alpha = pixels[source + 3]! / 255;
+        if (frame.blend === 0 || alpha === 1) {
+          pixels.copy(canvas, target, source, source + 4);
+          continue;
+        }
+        const below = canvas[target + 3]! / 255 * (1 - alpha);
+        const out = alpha + below;
+        for (let channel = 0; channel < 3; channel++) {
+          canvas[target + channel] = out === 0 ? 0 : Math.round((pixels[source + channel]! * alpha + canvas[target + channel]! * below) / out);
+        }
+        canvas[target + 3] = Math.round(out * 255);
+      }
+    }
+  }
+
+  private async writeFrame(outputDir: string, index: number, total: number, pixels: Buffer, width: number, height: number): Promise<string> {
+    const name = `frame_${String(index + 1).padStart(Math.max(3, String(total).length), '0')}.png`;
+    await sharp(pixels, { raw: { width, height, channels: 4 } }).png().toFile(path.join(outputDir, name));
+    return name;
+  }
+
+  private checkSize(sourcePath: string, frameCount: number, width: number, height: number): void {
+    if (frameCount < VALIDATION_RULES.MIN_FRAME_COUNT || frameCount > VALIDATION_RULES.MAX_FRAME_COUNT) {
+      throw new GeneratorError(
+        ErrorType.VALIDATION_ERROR,
+        `${path.basename(sourcePath)} has ${frameCount} frames (must be between ${VALIDATION_RULES.MIN_FRAME_COUNT} and ${VALIDATION_RULES.MAX_FRAME_COUNT})`,
+        { sourcePath, frameCount }
+      );
+    }
+    if (width < 1 || height < 1 || width > VALIDATION_RULES.MAX_DIMENSIONS || height > VALIDATION_RULES.MAX_DIMENSIONS) {
+      throw new GeneratorError(
+        ErrorType.VALIDATION_ERROR,
+        `${path.basename(sourcePath)} is ${width}x${height} (frames can be at most ${VALIDATION_RULES.MAX_DIMENSIONS} pixels on each side)`,
+        { sourcePath, width, height }
+      );
+    }
+  }
+}
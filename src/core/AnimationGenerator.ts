@@ -2,10 +2,24 @@ import sharp from 'sharp';
 import fs from 'fs-extra';
 import path from 'path';
 import ffmpeg from 'fluent-ffmpeg';
-import { TraitCombination } from '../types/traits';
+import { BlendOptions, LayerPosition, Trait, TraitCombination } from '../types/traits';
 import { GeneratorConfig } from '../types/config';
 import { GeneratorError, ErrorType } from '../types/errors';
 import logger from '../utils/logger';
+import { matchesAtom, parseRuleAtom } from './RuleEngine';
+import { VALIDATION_RULES } from '../constants/validation';
+
+// Frame count of a token, and whether its traits are looped or resampled in time to fill it
+export interface FrameTimeline {
+  frameCount: number;
+  resample: boolean;
+  // Set when a trait declares frame durations: the cycle length, and when each frame starts and how long it shows (ms)
+  length?: number;
+  starts?: number[];
+  durations?: number[];
+}
+
+const greatestCommonDivisor = (a: number, b: number): number => b === 0 ? a : greatestCommonDivisor(b, a % b);
 
 export class AnimationGenerator {
   private config: GeneratorConfig;
@@ -43,6 +57,10 @@ export class AnimationGenerator {
     const framesRoot = path.join(process.cwd(), 'output', 'frames');
     await fs.ensureDir(framesRoot);
 
+    // Hand-made 1/1s bring their own frames or finished animation
+    await this.placeOneOfOnes(combinations.filter(c => c.oneOfOne), framesRoot);
+    combinations = combinations.filter(c => !c.oneOfOne);
+
     // Optional warm cache: read & resize once per unique frame path
     await this.prewarmImageCache(combinations);
 
@@ -50,11 +68,11 @@ export class AnimationGenerator {
     for (let i = 0; i < combinations.length; i += maxConcurrent) {
       const batch = combinations.slice(i, i + maxConcurrent);
       const results = await Promise.allSettled(batch.map(async (combination) => {
+        // Frame counts and timings depend on the traits, so frames of an earlier run must not linger
         const comboDir = path.join(framesRoot, combination.id.toString());
-        await fs.ensureDir(comboDir);
+        await fs.emptyDir(comboDir);
 
         const { width, height } = this.config.generation.dimensions;
-        const framesPerAnimation = this.config.generation.frames_per_animation;
 
         // Reuse a transparent base buffer for all frames of this combination
         const baseTransparent = await sharp({
@@ -67,8 +85,9 @@ export class AnimationGenerator {
         }).png().toBuffer();
 
         let previousCompositeKey = '';
-        for (let frameIndex = 0; frameIndex < framesPerAnimation; frameIndex++) {
-          const composites = await this.getFrameComposites(combination, frameIndex);
+        const timeline = this.getTimeline(combination.traits);
+        for (let frameIndex = 0; frameIndex < timeline.frameCount; frameIndex++) {
+          const composites = await this.getFrameComposites(combination, frameIndex, timeline);
           const frameOutput = path.join(comboDir, `frame_${String(frameIndex + 1).padStart(3, '0')}.png`);
 
           // Skip identical frames: build a simple signature of inputs
@@ -86,6 +105,11 @@ export class AnimationGenerator {
           previousCompositeKey = compositeKey;
         }
 
+        // Variable frame durations travel with the frames to the encoders
+        if (timeline.durations) {
+          await fs.writeJson(path.join(comboDir, VALIDATION_RULES.FRAME_TIMING_FILE), { durations: timeline.durations });
+        }
+
         return { success: true, id: combination.id };
       }));
 
@@ -100,37 +124,92 @@ export class AnimationGenerator {
     logger.info('Direct frame generation completed', { total: combinations.length });
   }
 
+  // Composites a single frame of a combination exactly as generation would, for layer previews
+  async renderPreview(combination: TraitCombination, outputPath: string, frameIndex: number = 0): Promise<void> {
+    const { width, height } = this.config.generation.dimensions;
+    await fs.ensureDir(path.dirname(outputPath));
+    await sharp({ create: { width, height, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+      .composite(await this.getFrameComposites(combination, frameIndex, this.getTimeline(combination.traits)))
+      .png({ compressionLevel: this.getPngCompressionLevel(), adaptiveFiltering: false, force: true })
+      .toFile(outputPath);
+  }
+
+  private async placeOneOfOnes(combinations: TraitCombination[], framesRoot: string): Promise<void> {
+    const { width, height } = this.config.generation.dimensions;
+
+    for (const combination of combinations) {
+      const source = combination.oneOfOne!.source;
+
+      if (!(await fs.stat(source)).isDirectory()) {
+        // Ready-made animation: goes straight to the animations folder
+        const animationsDir = path.join(process.cwd(), 'output', 'animations');
+        await fs.ensureDir(animationsDir);
+        await fs.copy(source, path.join(animationsDir, `${combination.id}.${VALIDATION_RULES.ANIMATION_OUTPUTS[this.config.generation.output_format].extension}`));
+        continue;
+      }
+
+      // Folder of frames: normalize to the canvas size and the frame_XXX naming used for assembly
+      const frames = (await fs.readdir(source))
+        .filter((file: string) => file.toLowerCase().endsWith('.png'))
+        .sort((a: string, b: string) => {
+          const getNumber = (filename: string): number => {
+            const match = filename.match(/(\d+)\./);
+            return match && match[1] ? parseInt(match[1], 10) : 0;
+          };
+          return getNumber(a) - getNumber(b);
+        });
+
+      const comboDir = path.join(framesRoot, combination.id.toString());
+      await fs.ensureDir(comboDir);
+      for (let i = 0; i < frames.length; i++) {
+        await sharp(path.join(source, frames[i]!))
+          .resize(width, height, {
+            kernel: this.config.generation.upscaling === 'smooth' ? sharp.kernel.lanczos3 : sharp.kernel.nearest
+          })
+          .png({ compressionLevel: this.getPngCompressionLevel(), adaptiveFiltering: false, force: true })
+          .toFile(path.join(comboDir, `frame_${String(i + 1).padStart(3, '0')}.png`));
+      }
+    }
+
+    if (combinations.length > 0) {
+      logger.info('1/1 tokens placed', { ids: combinations.map(c => c.id) });
+    }
+  }
+
   // Preload and resize all unique images referenced by combinations
   private async prewarmImageCache(combinations: TraitCombination[]): Promise<void> {
-    const uniquePaths = new Set<string>();
+    const uniquePaths = new Map<string, { p: string; upscaling: string }>();
     const { width, height } = this.config.generation.dimensions;
 
     for (const combo of combinations) {
-      for (const trait of combo.traits) {
-        if (!trait.path || !trait.frames || trait.frames.length === 0) continue;
+      for (const trait of this.getRenderStack(combo.traits)) {
+        if (trait.empty || !trait.path || !trait.frames || trait.frames.length === 0) continue;
+        // Positioned frames are small; they're scaled and cached on first use
+        if (trait.render?.position) continue;
+        const upscaling = this.getUpscaling(trait);
         for (const fname of trait.frames) {
           const p = path.join(trait.path, fname);
-          const key = `${p}_${width}x${height}_${this.config.generation.upscaling}`;
-          if (!this.imageCache.has(key)) uniquePaths.add(p);
+          const key = `${p}_${width}x${height}_${upscaling}`;
+          if (!this.imageCache.has(key)) uniquePaths.set(key, { p, upscaling });
         }
       }
     }
 
-    const paths = Array.from(uniquePaths);
+    const paths = Array.from(uniquePaths.values());
     const maxConcurrent = Math.max(1, Math.min(this.config.generation.max_concurrent || 4, 16));
     for (let i = 0; i < paths.length; i += maxConcurrent) {
       const batch = paths.slice(i, i + maxConcurrent);
-      await Promise.allSettled(batch.map(async (p) => {
+      await Promise.allSettled(batch.map(async ({ p, upscaling }) => {
         try {
           const buf = await fs.readFile(p);
           const img = sharp(buf);
           const resized = await img
             .resize(width, height, {
-              kernel: this.config.generation.upscaling === 'smooth' ? sharp.kernel.lanczos3 : sharp.kernel.nearest
+              kernel: upscaling === 'smooth' ? sharp.kernel.lanczos3 : sharp.kernel.nearest
             })
             .png({ compressionLevel: this.getPngCompressionLevel(), adaptiveFiltering: false })
             .toBuffer();
-          const key = `${p}_${width}x${height}_${this.config.generation.upscaling}`;
+          const key = `${p}_${width}x${height}_${upscaling}`;
           if (this.imageCache.size >= this.maxCacheSize) {
             const firstKey = this.imageCache.keys().next().value;
             if (firstKey) this.imageCache.delete(firstKey);
@@ -154,7 +233,240 @@ export class AnimationGenerator {
 
   // Legacy spritesheet methods removed (replaced by direct frame compositing)
 
-  private async getFrameComposites(combination: TraitCombination, frameIndex: number): Promise<any[]> {
+  // trait.json render options may pick a different resize kernel than the collection default
+  private getUpscaling(trait: Trait): string {
+    return trait.render?.upscaling || this.config.generation.upscaling;
+  }
+
+  /**
+   * Orders a combination's traits bottom to top. Layer i of render_order (falling back to
+   * trait_processing_order) sits at depth i; a config z_index entry, or else the trait.json
+   * z_index, moves a single trait to another depth. Ties keep the selection order.
+   * A split trait contributes one entry per render part, each with the part's path and frames.
+   */
+  getRenderStack(traits: Trait[]): Trait[] {
+    const renderOrder = this.config.render_order || [];
+    const layerOrder = [
+      ...renderOrder,
+      ...this.config.trait_processing_order.filter(traitType => !renderOrder.includes(traitType))
+    ];
+    const zIndexRules = Object.entries(this.config.z_index || {})
+      .map(([key, zIndex]) => ({ atom: parseRuleAtom(key), zIndex }));
+
+    const depthOf = (trait: Trait): number => {
+      // Later entries win, as with reweights
+      const configured = zIndexRules.filter(rule => matchesAtom(rule.atom, trait)).pop();
+      if (configured) return configured.zIndex;
+      if (trait.render?.z_index !== undefined) return trait.render.z_index;
+      const position = layerOrder.indexOf(trait.type);
+      return position === -1 ? layerOrder.length : position;
+    };
+
+    // Parts without a configured depth stay at the trait's own depth
+    const expand = (trait: Trait, index: number) => {
+      const depth = depthOf(trait);
+      if (!trait.parts) return [{ trait, index, depth }];
+
+      const { parts, timing, ...whole } = trait;
+      return parts.map(part => ({
+        trait: { ...whole, path: part.path, frames: part.frames, ...(part.timing ? { timing: part.timing } : {}) },
+        index,
+        depth: this.config.render_parts?.[trait.type]?.[part.name] ?? trait.render?.parts?.[part.name] ?? depth
+      }));
+    };
+
+    return traits
+      .flatMap(expand)
+      .sort((a, b) => a.depth - b.depth || a.index - b.index)
+      .map(entry => entry.trait);
+  }
+
+  // Config blending entries (later ones win, per option) override the trait.json render options
+  getBlending(trait: Trait): Required<BlendOptions> {
+    const blending = { blend: trait.render?.blend ?? 'over', opacity: trait.render?.opacity ?? 1 };
+    for (const [key, options] of Object.entries(this.config.blending || {})) {
+      if (matchesAtom(parseRuleAtom(key), trait)) {
+        Object.assign(blending, options);
+      }
+    }
+    return blending;
+  }
+
+  /**
+   * Scales a positioned trait's frame from layout pixels to the canvas, keeping it at its own
+   * size, and works out where its anchor point lands.
+   */
+  private async loadPositionedFrame(
+    framePath: string,
+    position: LayerPosition,
+    upscaling: string
+  ): Promise<{ image: Buffer; cacheKey: string; left: number; top: number }> {
+    const { width, height } = this.config.generation.dimensions;
+    const layout = this.config.generation.layout_dimensions || { width, height };
+    const scaleX = width / layout.width;
+    const scaleY = height / layout.height;
+    const cacheKey = `${framePath}_${width}x${height}_${upscaling}_positioned`;
+
+    let image = this.imageCache.get(cacheKey);
+    if (!image) {
+      const frameImage = sharp(await fs.readFile(framePath));
+      const native = position.width && position.height ? position : await frameImage.metadata();
+      image = await frameImage
+        .resize(
+          Math.max(1, Math.round((position.width ?? native.width ?? 1) * scaleX)),
+          Math.max(1, Math.round((position.height ?? native.height ?? 1) * scaleY)),
+          { fit: 'fill', kernel: upscaling === 'smooth' ? sharp.kernel.lanczos3 : sharp.kernel.nearest }
+        )
+        .png()
+        .toBuffer();
+      if (this.imageCache.size >= this.maxCacheSize) {
+        const firstKey = this.imageCache.keys().next().value;
+        if (firstKey) this.imageCache.delete(firstKey);
+      }
+      this.imageCache.set(cacheKey, image);
+    }
+
+    const { width: frameWidth = 0, height: frameHeight = 0 } = await sharp(image).metadata();
+    const alignX = position.anchor.includes('left') ? 0 : position.anchor.includes('right') ? 1 : 0.5;
+    const alignY = position.anchor.includes('top') ? 0 : position.anchor.includes('bottom') ? 1 : 0.5;
+    return {
+      image,
+      cacheKey,
+      left: Math.round(alignX * (width - frameWidth) + position.x * scaleX),
+      top: Math.round(alignY * (height - frameHeight) + position.y * scaleY)
+    };
+  }
+
+  // Multiplies a resized frame's alpha by the trait's opacity; cached next to the resized frame
+  private async applyOpacity(image: Buffer, cacheKey: string, opacity: number): Promise<Buffer> {
+    if (opacity >= 1) return image;
+
+    const key = `${cacheKey}_opacity${opacity}`;
+    const cached = this.imageCache.get(key);
+    if (cached) return cached;
+
+    const faded = await sharp(image)
+      .ensureAlpha()
+      .composite([{
+        input: Buffer.from([255, 255, 255, Math.round(255 * opacity)]),
+        raw: { width: 1, height: 1, channels: 4 },
+        tile: true,
+        blend: 'dest-in'
+      }])
+      .png()
+      .toBuffer();
+    if (this.imageCache.size >= this.maxCacheSize) {
+      const firstKey = this.imageCache.keys().next().value;
+      if (firstKey) this.imageCache.delete(firstKey);
+    }
+    this.imageCache.set(key, faded);
+    return faded;
+  }
+
+  /**
+   * How many frames a token needs. In lcm mode it's the least common multiple of the loop
+   * lengths of its traits (and render parts), so every loop closes on the token's last frame.
+   * Longer cycles than frame_alignment.max_frames, and the resample mode, use
+   * frames_per_animation with every trait resampled in time instead.
+   */
+  getTimeline(traits: Trait[]): FrameTimeline {
+    const stack = this.getRenderStack(traits).filter(trait => !trait.empty && trait.frames?.length);
+    if (stack.some(trait => trait.timing)) {
+      return this.getTimedTimeline(stack);
+    }
+
+    const framesPerAnimation = this.config.generation.frames_per_animation;
+    const alignment = this.config.generation.frame_alignment;
+    if (!alignment || alignment.mode === 'fixed') {
+      return { frameCount: framesPerAnimation, resample: false };
+    }
+
+    if (alignment.mode === 'lcm') {
+      let cycle = 1;
+      for (const trait of stack) {
+        cycle = cycle / greatestCommonDivisor(cycle, trait.frames.length) * trait.frames.length;
+        if (cycle > alignment.max_frames) break;
+      }
+      if (cycle <= alignment.max_frames) {
+        return { frameCount: cycle, resample: false };
+      }
+      logger.debug('Loop cycle exceeds frame_alignment.max_frames, resampling instead', { cycle, maxFrames: alignment.max_frames });
+    }
+
+    return { frameCount: framesPerAnimation, resample: true };
+  }
+
+  /**
+   * Merges the frame durations of a token's traits into one timeline: a frame starts wherever
+   * any trait changes frame. The cycle is the longest trait loop, the others looping within it
+   * (or stretched to it in resample mode); in lcm mode it's the least common multiple of all
+   * loop lengths as long as that stays within max_frames.
+   */
+  private getTimedTimeline(stack: Trait[]): FrameTimeline {
+    const alignment = this.config.generation.frame_alignment;
+    const loops = stack.map(trait => this.getFrameDurations(trait));
+    const lengths = loops.map(durations => durations.reduce((sum, duration) => sum + duration, 0));
+
+    const build = (length: number, resample: boolean): FrameTimeline => {
+      const starts = new Set<number>();
+      loops.forEach((durations, i) => {
+        const scale = resample ? length / lengths[i]! : 1;
+        for (let time = 0, frame = 0; time < length; time += durations[frame]! * scale, frame = (frame + 1) % durations.length) {
+          starts.add(Math.round(time));
+        }
+      });
+      const sorted = [...starts].filter(start => start < length).sort((a, b) => a - b);
+      return {
+        frameCount: sorted.length,
+        resample,
+        length,
+        starts: sorted,
+        durations: sorted.map((start, i) => (sorted[i + 1] ?? length) - start)
+      };
+    };
+
+    if (alignment?.mode === 'lcm') {
+      const cycle = lengths.reduce((a, b) => a / greatestCommonDivisor(a, b) * b, 1);
+      // Every loop alone already contributes this many frames to the cycle
+      const tooLong = loops.some((durations, i) => cycle / lengths[i]! * durations.length > alignment.max_frames);
+      const timeline = tooLong ? null : build(cycle, false);
+      if (timeline && timeline.frameCount <= alignment.max_frames) {
+        return timeline;
+      }
+      logger.debug('Timed loop cycle exceeds frame_alignment.max_frames, resampling instead', { cycle, maxFrames: alignment.max_frames });
+    }
+
+    return build(Math.max(...lengths), alignment?.mode === 'resample' || alignment?.mode === 'lcm');
+  }
+
+  // Display duration of each of the trait's frames (ms); frames without timing last one frame_rate tick
+  private getFrameDurations(trait: Trait): number[] {
+    const tick = Math.round(1000 / this.config.generation.frame_rate);
+    return trait.frames.map(frame => trait.timing?.[frame] ?? tick);
+  }
+
+  // Loops the trait's frames over the timeline, or spreads them evenly across it when resampling
+  getFrameFile(trait: Trait, frameIndex: number, timeline: FrameTimeline): string | undefined {
+    const count = trait.frames.length;
+    if (count === 1) return trait.frames[0];
+
+    if (timeline.starts && timeline.durations && timeline.length) {
+      // Sample mid-frame, clear of the rounding of frame starts to whole ms
+      const durations = this.getFrameDurations(trait);
+      const loop = durations.reduce((sum, duration) => sum + duration, 0);
+      const middle = timeline.starts[frameIndex]! + timeline.durations[frameIndex]! / 2;
+      let time = timeline.resample ? middle * loop / timeline.length : middle % loop;
+      for (const [i, duration] of durations.entries()) {
+        if (time < duration) return trait.frames[i];
+        time -= duration;
+      }
+      return trait.frames[count - 1];
+    }
+
+    return trait.frames[timeline.resample ? Math.floor(frameIndex * count / timeline.frameCount) : frameIndex % count];
+  }
+
+  private async getFrameComposites(combination: TraitCombination, frameIndex: number, timeline: FrameTimeline): Promise<any[]> {
     const composites = [];
     
     logger.debug('Processing frame composites', { 
@@ -163,10 +475,15 @@ export class AnimationGenerator {
       traitCount: combination.traits.length 
     });
     
-    for (const trait of combination.traits) {
+    for (const trait of this.getRenderStack(combination.traits)) {
+      // Empty slot of an optional layer: nothing to read, resize or blend
+      if (trait.empty) continue;
+      const upscaling = this.getUpscaling(trait);
+      const { blend, opacity } = this.getBlending(trait);
+
       if (trait.frames && trait.frames.length > 0) {
-        // If only one frame exists for this trait, use it for all frame indices
-        const chosenFileName = trait.frames.length === 1 ? trait.frames[0] : trait.frames[frameIndex];
+        // A single frame is used for every frame index
+        const chosenFileName = this.getFrameFile(trait, frameIndex, timeline);
         
         try {
           if (!chosenFileName) {
@@ -212,9 +529,21 @@ export class AnimationGenerator {
             traitName: trait.name,
             framePath 
           });
+
+          // Positioned layer: placed with top/left at its own size instead of stretched
+          if (trait.render?.position) {
+            const placed = await this.loadPositionedFrame(framePath, trait.render.position, upscaling);
+            composites.push({
+              input: await this.applyOpacity(placed.image, placed.cacheKey, opacity),
+              blend,
+              left: placed.left,
+              top: placed.top
+            });
+            continue;
+          }
           
           // Check cache first
-          const cacheKey = `${framePath}_${this.config.generation.dimensions.width}x${this.config.generation.dimensions.height}_${this.config.generation.upscaling}`;
+          const cacheKey = `${framePath}_${this.config.generation.dimensions.width}x${this.config.generation.dimensions.height}_${upscaling}`;
           let resizedImage: Buffer;
           
           if (this.imageCache.has(cacheKey)) {
@@ -231,7 +560,7 @@ export class AnimationGenerator {
             logger.debug('Starting Sharp resize operation', { combinationId: combination.id, framePath, width, height });
             resizedImage = await frameImage
               .resize(width, height, {
-                kernel: this.config.generation.upscaling === 'smooth' 
+                kernel: upscaling === 'smooth' 
                   ? sharp.kernel.lanczos3 
                   : sharp.kernel.nearest
               })
@@ -251,8 +580,8 @@ export class AnimationGenerator {
           }
 
           composites.push({
-            input: resizedImage,
-            blend: 'over'
+            input: await this.applyOpacity(resizedImage, cacheKey, opacity),
+            blend
           });
           
           logger.debug('Added composite', {
@@ -269,35 +598,40 @@ export class AnimationGenerator {
             );
             if (imageFiles.length === 1) {
               const fallbackPath = path.join(trait.path, imageFiles[0] || '0.png');
-              const fallbackCacheKey = `${fallbackPath}_${this.config.generation.dimensions.width}x${this.config.generation.dimensions.height}_${this.config.generation.upscaling}`;
-              let resizedImage: Buffer;
-              
-              if (this.imageCache.has(fallbackCacheKey)) {
-                resizedImage = this.imageCache.get(fallbackCacheKey)!;
+              if (trait.render?.position) {
+                const placed = await this.loadPositionedFrame(fallbackPath, trait.render.position, upscaling);
+                composites.push({ input: await this.applyOpacity(placed.image, placed.cacheKey, opacity), blend, left: placed.left, top: placed.top });
               } else {
-                const fbBuffer = await fs.readFile(fallbackPath);
-                const fbImage = sharp(fbBuffer);
-                const { width, height } = this.config.generation.dimensions;
-                resizedImage = await fbImage
-                  .resize(width, height, {
-                    kernel: this.config.generation.upscaling === 'smooth'
-                      ? sharp.kernel.lanczos3
-                      : sharp.kernel.nearest
-                  })
-                  .png()
-                  .toBuffer();
+                const fallbackCacheKey = `${fallbackPath}_${this.config.generation.dimensions.width}x${this.config.generation.dimensions.height}_${upscaling}`;
+                let resizedImage: Buffer;
+              
+                if (this.imageCache.has(fallbackCacheKey)) {
+                  resizedImage = this.imageCache.get(fallbackCacheKey)!;
+                } else {
+                  const fbBuffer = await fs.readFile(fallbackPath);
+                  const fbImage = sharp(fbBuffer);
+                  const { width, height } = this.config.generation.dimensions;
+                  resizedImage = await fbImage
+                    .resize(width, height, {
+                      kernel: upscaling === 'smooth'
+                        ? sharp.kernel.lanczos3
+                        : sharp.kernel.nearest
+                    })
+                    .png()
+                    .toBuffer();
                   
-                // Cache the result with size management
-                if (this.imageCache.size >= this.maxCacheSize) {
-                  const firstKey = this.imageCache.keys().next().value;
-                  if (firstKey) {
-                    this.imageCache.delete(firstKey);
+                  // Cache the result with size management
+                  if (this.imageCache.size >= this.maxCacheSize) {
+                    const firstKey = this.imageCache.keys().next().value;
+                    if (firstKey) {
+                      this.imageCache.delete(firstKey);
+                    }
                   }
+                  this.imageCache.set(fallbackCacheKey, resizedImage);
                 }
-                this.imageCache.set(fallbackCacheKey, resizedImage);
-              }
 
-              composites.push({ input: resizedImage, blend: 'over' });
+                composites.push({ input: await this.applyOpacity(resizedImage, fallbackCacheKey, opacity), blend });
+              }
               logger.warn('Frame missing, used single-image fallback', {
                 trait: `${trait.type}:${trait.name}`,
                 frameIndex,
@@ -517,6 +851,11 @@ export class AnimationGenerator {
   }
 
   private async assembleAnimation(combination: TraitCombination, outputDir: string): Promise<void> {
+    // 1/1s shipped as a finished animation were already copied into place
+    if (combination.oneOfOne && !(await fs.stat(combination.oneOfOne.source)).isDirectory()) {
+      return;
+    }
+
     const framesDir = path.join(process.cwd(), 'output', 'frames', combination.id.toString());
     
     if (!await fs.pathExists(framesDir)) {
@@ -548,19 +887,61 @@ export class AnimationGenerator {
       );
     }
 
-    const outputPath = path.join(outputDir, `${combination.id}.${this.config.generation.output_format}`);
+    const format = this.config.generation.output_format;
+    const outputPath = path.join(outputDir, `${combination.id}.${VALIDATION_RULES.ANIMATION_OUTPUTS[format].extension}`);
+    const durations = await this.readFrameDurations(framesDir, frameFiles.length);
 
-    if (this.config.generation.output_format === 'gif') {
-      await this.createGIF(frameFiles, framesDir, outputPath);
-    } else if (this.config.generation.output_format === 'mp4') {
-      await this.createMP4(frameFiles, framesDir, outputPath);
+    if (format === 'gif') {
+      await this.createGIF(frameFiles, framesDir, outputPath, durations);
+    } else if (format === 'mp4') {
+      await this.createMP4(frameFiles, framesDir, outputPath, durations);
+    } else {
+      await this.createAnimatedImage(format, frameFiles, framesDir, outputPath, durations);
+    }
+  }
+
+  // Per-frame durations written next to the frames of a token with timed traits; null for constant frame_rate
+  private async readFrameDurations(framesDir: string, frameCount: number): Promise<number[] | null> {
+    const timingPath = path.join(framesDir, VALIDATION_RULES.FRAME_TIMING_FILE);
+    if (!await fs.pathExists(timingPath)) {
+      return null;
+    }
+
+    const { durations } = await fs.readJson(timingPath);
+    if (!Array.isArray(durations) || durations.length !== frameCount) {
+      throw new GeneratorError(
+        ErrorType.FILE_ERROR,
+        `${timingPath} must list one duration per frame (${frameCount} frames)`,
+        { timingPath, frameCount }
+      );
     }
+    return durations;
   }
 
-  private async createGIF(_frameFiles: string[], framesDir: string, outputPath: string): Promise<void> {
+  /**
+   * Writes an ffconcat list giving every frame its own duration, for variable frame rate
+   * encoding. The last frame is listed twice, or the concat demuxer drops its duration.
+   */
+  private async writeConcatList(frameFiles: string[], framesDir: string, durations: number[]): Promise<string> {
+    const listPath = path.join(framesDir, 'frames.ffconcat');
+    const lines = [
+      'ffconcat version 1.0',
+      ...frameFiles.flatMap((file, i) => [`file '${file}'`, `duration ${durations[i]! / 1000}`]),
+      `file '${frameFiles[frameFiles.length - 1]}'`
+    ];
+    await fs.writeFile(listPath, `${lines.join('\n')}\n`);
+    return listPath;
+  }
+
+  private async createGIF(frameFiles: string[], framesDir: string, outputPath: string, durations: number[] | null): Promise<void> {
     try {
       const frameRate = this.config.generation.frame_rate;
-      const inputPattern = path.join(framesDir, 'frame_%03d.png');
+      const input = durations
+        ? { path: await this.writeConcatList(frameFiles, framesDir, durations), options: ['-f', 'concat', '-safe', '0'] }
+        : {
+          path: path.join(framesDir, 'frame_%03d.png'),
+          options: ['-f', 'image2', '-pattern_type', 'sequence', '-start_number', '1', '-framerate', String(frameRate)]
+        };
       const loopCount = typeof this.config.animation?.loop_count === 'number' ? this.config.animation.loop_count : 0;
       const dithering = this.config.animation?.dithering !== false; // default true
       // const palette = this.config.animation?.color_palette || 'auto'; // reserved for future palette config
@@ -571,16 +952,15 @@ export class AnimationGenerator {
       // Use FFmpeg to create GIF from frames with optimized settings
       await new Promise<void>((resolve, reject) => {
         ffmpeg()
-          .input(inputPattern)
+          .input(input.path)
           .inputOptions([
-            '-f', 'image2',
-            '-pattern_type', 'sequence',
-            '-start_number', '1',
-            '-framerate', String(frameRate),
+            ...input.options,
             ...(this.ffmpegHwAccel ? ['-hwaccel', 'auto'] : [])
           ])
           .outputOptions([
-            '-vf', `fps=${frameRate},scale=${this.config.generation.dimensions.width}:${this.config.generation.dimensions.height}:flags=lanczos,split[s0][s1];[s0]${paletteGenOpts}[p];[s1][p]${paletteUseOpts}`,
+            // Variable delays keep their timestamps instead of being resampled to frame_rate
+            '-vf', `${durations ? '' : `fps=${frameRate},`}scale=${this.config.generation.dimensions.width}:${this.config.generation.dimensions.height}:flags=lanczos,split[s0][s1];[s0]${paletteGenOpts}[p];[s1][p]${paletteUseOpts}`,
+            ...(durations ? ['-vsync', 'vfr'] : []),
             '-loop', String(loopCount),
             '-y',
             '-threads', `${typeof this.config.performance?.cpu_cores === 'number' ? this.config.performance.cpu_cores : 0}`,
@@ -606,12 +986,14 @@ export class AnimationGenerator {
     }
   }
 
-  private async createMP4(_frameFiles: string[], framesDir: string, outputPath: string): Promise<void> {
+  private async createMP4(frameFiles: string[], framesDir: string, outputPath: string, durations: number[] | null): Promise<void> {
     try {
       const frameRate = this.config.generation.frame_rate;
       
-      // Create a temporary input pattern for FFmpeg
-      const inputPattern = path.join(framesDir, 'frame_%03d.png');
+      // Create a temporary input pattern for FFmpeg, or a VFR timeline of the frames
+      const inputPattern = durations
+        ? await this.writeConcatList(frameFiles, framesDir, durations)
+        : path.join(framesDir, 'frame_%03d.png');
       const optimization = this.config.animation?.optimization || 'high';
       const crf = optimization === 'low' ? '23' : optimization === 'medium' ? '20' : '18';
       const preset = optimization === 'low' ? 'ultrafast' : optimization === 'medium' ? 'fast' : 'slow';
@@ -619,12 +1001,18 @@ export class AnimationGenerator {
       
       // Use FFmpeg to create MP4 from frames with optimized settings
       await new Promise<void>((resolve, reject) => {
-        ffmpeg()
+        const command = ffmpeg()
           // Hardware accel must be specified as an INPUT option (before input)
           .inputOptions([...(this.ffmpegHwAccel ? ['-hwaccel', 'auto'] : [])])
-          .input(inputPattern)
-          .inputFPS(frameRate)
+          .input(inputPattern);
+        if (durations) {
+          command.inputOptions(['-f', 'concat', '-safe', '0']);
+        } else {
+          command.inputFPS(frameRate);
+        }
+        command
           .outputOptions([
+            ...(durations ? ['-vsync', 'vfr'] : []),
             '-c:v', 'libx264',
             '-pix_fmt', 'yuv420p',
             '-crf', crf,
@@ -653,6 +1041,56 @@ export class AnimationGenerator {
     }
   }
 
+  // Lossless animated WebP or APNG; both keep exact per-frame delays
+  private async createAnimatedImage(
+    format: 'webp' | 'apng',
+    frameFiles: string[],
+    framesDir: string,
+    outputPath: string,
+    durations: number[] | null
+  ): Promise<void> {
+    try {
+      const frameRate = this.config.generation.frame_rate;
+      const loopCount = typeof this.config.animation?.loop_count === 'number' ? this.config.animation.loop_count : 0;
+      const inputPath = durations
+        ? await this.writeConcatList(frameFiles, framesDir, durations)
+        : path.join(framesDir, 'frame_%03d.png');
+      const encoderOptions = format === 'webp'
+        ? ['-c:v', 'libwebp', '-lossless', '1', '-loop', String(loopCount)]
+        : ['-f', 'apng', '-plays', String(loopCount)];
+
+      await new Promise<void>((resolve, reject) => {
+        ffmpeg()
+          .input(inputPath)
+          .inputOptions(durations
+            ? ['-f', 'concat', '-safe', '0']
+            : ['-f', 'image2', '-start_number', '1', '-framerate', String(frameRate)])
+          .outputOptions([
+            ...(durations ? ['-vsync', 'vfr'] : []),
+            '-vf', `scale=${this.config.generation.dimensions.width}:${this.config.generation.dimensions.height}:flags=lanczos`,
+            ...encoderOptions,
+            '-y'
+          ])
+          .output(outputPath)
+          .on('error', (error) => {
+            logger.error('FFmpeg error', { error: error.message });
+            reject(error);
+          })
+          .on('end', () => {
+            resolve();
+          })
+          .run();
+      });
+    } catch (error) {
+      logger.error(`Failed to create ${format.toUpperCase()}`, { outputPath, error });
+      throw new GeneratorError(
+        ErrorType.PROCESSING_ERROR,
+        `Failed to create ${format.toUpperCase()}: ${error instanceof Error ? error.message : error}`,
+        { outputPath, error }
+      );
+    }
+  }
+
   async cleanupIntermediateFiles(): Promise<void> {
     // Temporarily disabled for debugging - keep intermediate files
     logger.info('Skipping cleanup of intermediate files for debugging');
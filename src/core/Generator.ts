@@ -1,22 +1,49 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { GeneratorConfig } from '../types/config';
-import { TraitCombination } from '../types/traits';
+import { TraitCombination, CapacityReport } from '../types/traits';
 import { GeneratorError, ErrorType } from '../types/errors';
 import { LayerProcessor } from './LayerProcessor';
 import { TraitSelector } from './TraitSelector';
 import { AnimationGenerator } from './AnimationGenerator';
+import { ProvenanceRecorder, ProvenanceVerification } from './ProvenanceRecorder';
 import { ConfigValidator } from '../validators/configValidator';
+import { RuleLinter, RuleLintResult } from '../validators/ruleLinter';
+import { Attribute, GenerationInfo, ProvenanceRecord } from '../types/metadata';
+import { createRandom, generateSeed, shuffleInPlace } from '../utils/random';
+import { VALIDATION_RULES } from '../constants/validation';
 import logger from '../utils/logger';
 
+const GENERATOR_VERSION = '1.0.0';
+
 export interface GenerationOptions {
   resume?: boolean;
   verbose?: boolean;
   batchSize?: number;
   // Optional override for this run; if provided, ignores config.generation.total_nfts
   totalCountOverride?: number | undefined;
+  // Optional seed for this run; if provided, overrides config.generation.seed
+  seed?: string | undefined;
+  // Add tokens to the collection already in output/ instead of starting over
+  extend?: boolean | undefined;
+}
+
+// The collection an --extend run adds to
+interface ExistingCollection {
+  lastId: number;
+  tokens: Attribute[][];
+  // Tokens whose traits all still exist; null until they're added to the uniqueness pool
+  matched: number | null;
+}
+
+export interface CapacityAnalysis extends CapacityReport {
+  requested: number;
+  headroom: number;
 }
 
+// Warn when fewer than this share of the valid combinations would be left unused
+const LOW_HEADROOM_RATIO = 0.1;
+
 export class Generator {
   private config: GeneratorConfig;
   private layerProcessor: LayerProcessor;
@@ -24,11 +51,18 @@ export class Generator {
   private animationGenerator: AnimationGenerator;
   private configValidator: ConfigValidator;
   private currentCombinations: TraitCombination[] = [];
+  private seed: string | null = null;
+  private existing: ExistingCollection | null = null;
 
   constructor(configPath?: string) {
     this.configValidator = new ConfigValidator();
     this.config = this.loadConfig(configPath);
-    this.layerProcessor = new LayerProcessor('layers', this.config.generation.frames_per_animation);
+    this.layerProcessor = new LayerProcessor(
+      'layers',
+      this.config.generation.frames_per_animation,
+      this.config.variant_by,
+      this.config.generation.frame_alignment?.mode
+    );
     this.traitSelector = new TraitSelector(this.config, this.layerProcessor);
     this.animationGenerator = new AnimationGenerator(this.config);
   }
@@ -52,8 +86,11 @@ export class Generator {
     }
   }
 
-  async validate(): Promise<void> {
+  async validate(options: { totalCount?: number | undefined; extend?: boolean | undefined } = {}): Promise<void> {
     logger.info('Starting validation process');
+    if (options.extend && !this.existing) {
+      this.existing = await this.loadExistingCollection();
+    }
 
     // Validate configuration
     logger.info('Validating configuration...');
@@ -71,6 +108,45 @@ export class Generator {
       );
     }
 
+    // Resolve every rule key against the layers
+    logger.info('Linting trait rules...');
+    const lintResult = await this.lintRules();
+    lintResult.warnings.forEach(warning => logger.warn(`Rule lint: ${warning}`));
+    if (!lintResult.isValid) {
+      if (this.config.validation.strict_mode) {
+        throw new GeneratorError(
+          ErrorType.VALIDATION_ERROR,
+          'Rule lint failed',
+          { errors: lintResult.errors }
+        );
+      }
+      lintResult.errors.forEach(error => logger.warn(`Rule lint: ${error}`));
+    }
+
+    // Earlier tokens take part in uniqueness, and in the capacity check below
+    await this.addExistingTokens();
+
+    // Validate hand-made 1/1 sources
+    await this.validateOneOfOnes(options.totalCount);
+
+    // Make sure the layers and rules can supply enough unique tokens before rendering anything
+    logger.info('Analyzing combination capacity...');
+    const capacity = await this.analyzeCapacity(options.totalCount);
+    if (capacity.headroom < 0) {
+      throw new GeneratorError(
+        ErrorType.VALIDATION_ERROR,
+        `Only ${capacity.capacity} unique combinations are possible, but ${capacity.requested} are requested${this.existing?.matched ? ` on top of ${this.existing.matched} existing tokens` : ''}`,
+        { capacity }
+      );
+    }
+    if (capacity.headroom < capacity.capacity * LOW_HEADROOM_RATIO) {
+      logger.warn('Low combination headroom: generation may slow down as unique combinations run out', {
+        capacity: capacity.capacity,
+        requested: capacity.requested,
+        headroom: capacity.headroom
+      });
+    }
+
     logger.info('Validation completed successfully', {
       totalTraits: layerResult.stats.totalTraits,
       totalFrames: layerResult.stats.totalFrames,
@@ -82,17 +158,18 @@ export class Generator {
     logger.info('Starting NFT generation process', {
       totalNFTs: options.totalCountOverride ?? this.config.generation.total_nfts,
       batchSize: options.batchSize || this.config.generation.batch_size,
-      resume: options.resume || false
+      resume: options.resume || false,
+      seed: options.seed ?? this.config.generation.seed ?? null
     });
 
     try {
-      // Always start from a clean output directory unless resuming
-      if (!options.resume) {
+      // Always start from a clean output directory unless resuming or extending
+      if (!options.resume && !options.extend) {
         await this.cleanOutput();
       }
 
       // Validate before generation
-      await this.validate();
+      await this.validate({ totalCount: options.totalCountOverride, extend: options.extend });
 
       // Generate metadata
       await this.generateMetadata(options);
@@ -128,8 +205,15 @@ export class Generator {
 
     try {
       const totalToGenerate = options.totalCountOverride ?? this.config.generation.total_nfts;
-      logger.info('Generating combinations', { totalToGenerate });
-      const combinations = await this.traitSelector.generateCombinations(totalToGenerate);
+      const seed = this.applySeed(options.seed);
+      const oneOfOnes = this.config.one_of_ones?.tokens || [];
+      if (options.extend && !this.existing) {
+        this.existing = await this.loadExistingCollection();
+      }
+      await this.addExistingTokens();
+      logger.info('Generating combinations', { totalToGenerate, oneOfOnes: oneOfOnes.length, seed, firstId: this.getFirstTokenId() });
+      const generated = await this.traitSelector.generateCombinations(totalToGenerate - oneOfOnes.length);
+      const combinations = this.assignTokenIds(generated, seed);
 
       // Store combinations for later use
       this.currentCombinations = combinations;
@@ -148,19 +232,20 @@ export class Generator {
       }
 
       // Save collection metadata for both formats
-      const ethereumCollection = this.generateCollectionMetadata(combinations, 'ethereum');
-      const solanaCollection = this.generateCollectionMetadata(combinations, 'solana');
-      
       const ethereumCollectionPath = path.join(process.cwd(), 'output', 'ethereum_collection_metadata.json');
       const solanaCollectionPath = path.join(process.cwd(), 'output', 'solana_collection_metadata.json');
-      
+
+      const ethereumCollection = await this.extendCollectionMetadata(ethereumCollectionPath, this.generateCollectionMetadata(combinations, 'ethereum'));
+      const solanaCollection = await this.extendCollectionMetadata(solanaCollectionPath, this.generateCollectionMetadata(combinations, 'solana'));
+
       await fs.writeJson(ethereumCollectionPath, ethereumCollection, { spaces: 2 });
       await fs.writeJson(solanaCollectionPath, solanaCollection, { spaces: 2 });
 
       logger.info('Metadata generation completed', {
         totalGenerated: combinations.length,
         ethereumDir,
-        solanaDir
+        solanaDir,
+        seed
       });
     } catch (error) {
       logger.error('Metadata generation failed', { error });
@@ -202,20 +287,86 @@ export class Generator {
     }
   }
 
-  async previewTraits(count: number): Promise<TraitCombination[]> {
+  async lintRules(): Promise<RuleLintResult> {
+    if (!this.layerProcessor.getValidationResult()?.isValid) {
+      await this.layerProcessor.validateStructure();
+    }
+    return new RuleLinter(this.config).lint(this.layerProcessor.getHierarchy());
+  }
+
+  // Hashes output/animations into output/provenance.json, or applies the reveal offset to a recorded collection
+  async recordProvenance(revealValue?: string): Promise<ProvenanceRecord> {
+    const recorder = new ProvenanceRecorder(this.config);
+    return revealValue !== undefined ? recorder.reveal(revealValue) : recorder.record();
+  }
+
+  async verifyProvenance(): Promise<ProvenanceVerification> {
+    return new ProvenanceRecorder(this.config).verify();
+  }
+
+  async listTags(): Promise<Record<string, string[]>> {
+    if (!this.layerProcessor.getValidationResult()?.isValid) {
+      await this.layerProcessor.validateStructure();
+    }
+    return this.traitSelector.getTagExpansion();
+  }
+
+  private async getTraitTiers(): Promise<Record<string, Record<string, string>>> {
+    if (!this.layerProcessor.getValidationResult()?.isValid) {
+      await this.layerProcessor.validateStructure();
+    }
+    return this.traitSelector.getTraitTiers();
+  }
+
+  async analyzeCapacity(totalCount?: number): Promise<CapacityAnalysis> {
+    if (!this.layerProcessor.getValidationResult()?.isValid) {
+      await this.layerProcessor.validateStructure();
+    }
+
+    const report = await this.traitSelector.analyzeCapacity();
+    const oneOfOnes = this.config.one_of_ones?.tokens.length || 0;
+    const requested = (totalCount ?? this.config.generation.total_nfts) - oneOfOnes;
+    // Earlier tokens that still match the layers take up combinations too
+    const taken = this.existing?.matched || 0;
+
+    return {
+      ...report,
+      requested,
+      headroom: report.capacity - taken - requested
+    };
+  }
+
+  async previewTraits(count: number, seed?: string): Promise<TraitCombination[]> {
     logger.info('Generating trait preview', { count });
 
     try {
       // Validate layer structure first
       await this.layerProcessor.validateStructure();
+      this.applySeed(seed);
       
-      return await this.traitSelector.generateCombinations(count);
+      return await this.traitSelector.generateCombinations(count, { ignoreQuotas: true });
     } catch (error) {
       logger.error('Trait preview failed', { error });
       throw error;
     }
   }
 
+  // Renders the first frame of `count` seeded combinations to output/previews, blending included
+  async renderLayerPreviews(count: number, seed?: string): Promise<string[]> {
+    const combinations = await this.previewTraits(count, seed);
+    const previewsDir = path.join(process.cwd(), 'output', 'previews');
+    await fs.emptyDir(previewsDir);
+
+    const files: string[] = [];
+    for (const [index, combination] of combinations.entries()) {
+      const file = path.join(previewsDir, `preview_${index + 1}.png`);
+      await this.animationGenerator.renderPreview(combination, file);
+      files.push(file);
+    }
+    logger.info('Layer previews rendered', { count: files.length, previewsDir });
+    return files;
+  }
+
   async calculateRarities(inputDir: string): Promise<void> {
     logger.info('Calculating trait rarities', { inputDir });
 
@@ -243,6 +394,10 @@ export class Generator {
       const rarityCounts: Record<string, Record<string, number>> = {};
       let totalItems = 0;
 
+      // Tiered layers are also counted per tier, looked up from the attribute value
+      const traitTiers = this.config.rarity_tiers ? await this.getTraitTiers() : {};
+      const tierCounts: Record<string, Record<string, number>> = {};
+
       for (const file of jsonFiles) {
         const fp = path.join(dir, file);
         const meta = await fs.readJson(fp);
@@ -253,6 +408,11 @@ export class Generator {
           if (!type || !value) continue;
           if (!rarityCounts[type]) rarityCounts[type] = {};
           rarityCounts[type][value] = (rarityCounts[type][value] || 0) + 1;
+          const tier = traitTiers[type]?.[value];
+          if (tier !== undefined) {
+            if (!tierCounts[type]) tierCounts[type] = {};
+            tierCounts[type][tier] = (tierCounts[type][tier] || 0) + 1;
+          }
         }
         totalItems++;
       }
@@ -267,13 +427,29 @@ export class Generator {
         rarityPercentages[traitType] = entries;
       }
 
+      // Actual tier shares next to the configured ones (rules and quotas can skew them)
+      const tierBreakdown: Record<string, { tier: string; count: number; percent: number; expected_percent: number }[]> = {};
+      for (const [traitType, tiers] of Object.entries(this.config.rarity_tiers || {})) {
+        const totalWeight = Object.values(tiers.weights).reduce((sum, weight) => sum + weight, 0);
+        tierBreakdown[traitType] = Object.entries(tiers.weights).map(([tier, weight]) => {
+          const count = tierCounts[traitType]?.[tier] || 0;
+          return {
+            tier,
+            count,
+            percent: +(100 * count / totalItems).toFixed(4),
+            expected_percent: totalWeight > 0 ? +(100 * weight / totalWeight).toFixed(4) : 0
+          };
+        });
+      }
+
       // Write report
       const statsDir = path.join(process.cwd(), 'output', 'stats');
       await fs.ensureDir(statsDir);
       const reportPath = path.join(statsDir, 'rarity.json');
       await fs.writeJson(reportPath, {
         total: totalItems,
-        traits: rarityPercentages
+        traits: rarityPercentages,
+        ...(Object.keys(tierBreakdown).length > 0 ? { tiers: tierBreakdown } : {})
       }, { spaces: 2 });
 
       // Print concise summary
@@ -285,6 +461,10 @@ export class Generator {
         console.log(`  Rarest: ${top.map(i => `${i.value} (${i.percent}%)`).join(', ')}`);
         console.log(`  Common: ${bottom.map(i => `${i.value} (${i.percent}%)`).join(', ')}`);
       }
+      for (const [traitType, tiers] of Object.entries(tierBreakdown)) {
+        console.log(`\n${traitType} tiers:`);
+        tiers.forEach(t => console.log(`  ${t.tier}: ${t.count} (${t.percent}%, configured ${t.expected_percent}%)`));
+      }
     } catch (error) {
       logger.error('Rarity calculation failed', { error });
       throw error;
@@ -357,6 +537,187 @@ export class Generator {
     }
   }
 
+  // `totalCount` is the run's token count when --count overrides total_nfts
+  private async validateOneOfOnes(totalCount?: number): Promise<void> {
+    const oneOfOnes = this.config.one_of_ones;
+    if (!oneOfOnes || oneOfOnes.tokens.length === 0) {
+      return;
+    }
+
+    const errors: string[] = [];
+    const total = totalCount ?? this.config.generation.total_nfts;
+    const ids = this.getTokenIds(total);
+    const assigned = new Set(ids);
+    if (oneOfOnes.tokens.length > total) {
+      errors.push(`${oneOfOnes.tokens.length} 1/1 tokens configured but only ${total} tokens are generated`);
+    }
+
+    for (const token of oneOfOnes.tokens) {
+      const source = this.resolveOneOfOneSource(token.source);
+      if (token.token_id !== undefined && !assigned.has(token.token_id)) {
+        errors.push(`1/1 "${token.source}" uses token_id ${token.token_id}, ${this.describeTokenIds(ids)}`);
+      }
+      if (!await fs.pathExists(source)) {
+        errors.push(`1/1 source not found: ${source}`);
+        continue;
+      }
+      if ((await fs.stat(source)).isDirectory()) {
+        const frames = (await fs.readdir(source)).filter(f =>
+          VALIDATION_RULES.SUPPORTED_IMAGE_FORMATS.some(ext => f.toLowerCase().endsWith(ext))
+        );
+        if (frames.length === 0) {
+          errors.push(`1/1 source folder has no PNG frames: ${source}`);
+        }
+      } else if (path.extname(source).toLowerCase() !== `.${VALIDATION_RULES.ANIMATION_OUTPUTS[this.config.generation.output_format].extension}`) {
+        errors.push(`1/1 animation ${source} must be a .${VALIDATION_RULES.ANIMATION_OUTPUTS[this.config.generation.output_format].extension} file to match output_format`);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new GeneratorError(
+        ErrorType.VALIDATION_ERROR,
+        '1/1 token validation failed',
+        { errors }
+      );
+    }
+  }
+
+  private resolveOneOfOneSource(source: string): string {
+    return path.resolve(this.config.one_of_ones?.path || 'one_of_ones', source);
+  }
+
+  /**
+   * Gives every token its final ID once selection is done. 1/1s with a token_id keep it, the
+   * rest take seeded random free IDs, and generated tokens fill the remaining IDs in generation
+   * order, or in a seeded random order with token_ids.shuffle.
+   */
+  private assignTokenIds(generated: TraitCombination[], seed: string): TraitCombination[] {
+    const tokens = this.config.one_of_ones?.tokens || [];
+    const ids = this.getTokenIds(generated.length + tokens.length);
+    const assigned = new Set(ids);
+    const fixedIds = new Set(tokens.flatMap(token => token.token_id !== undefined ? [token.token_id] : []));
+    const outOfRange = [...fixedIds].filter(id => !assigned.has(id));
+    if (outOfRange.length > 0) {
+      throw new GeneratorError(
+        ErrorType.CONFIG_ERROR,
+        `1/1 token IDs ${outOfRange.join(', ')} are ${this.describeTokenIds(ids)}`,
+        { outOfRange, firstId: ids[0], lastId: ids[ids.length - 1] }
+      );
+    }
+
+    const freeIds = ids.filter(id => !fixedIds.has(id));
+    const randomIds = shuffleInPlace([...freeIds], createRandom(`${seed}:one_of_ones`));
+
+    const combinations: TraitCombination[] = [];
+    const takenIds = new Set(fixedIds);
+    for (const token of tokens) {
+      const id = token.token_id ?? randomIds.shift()!;
+      takenIds.add(id);
+      combinations.push(this.traitSelector.createOneOfOneCombination(id, token, this.resolveOneOfOneSource(token.source)));
+    }
+
+    const generatedIds = freeIds.filter(id => !takenIds.has(id));
+    if (this.config.token_ids?.shuffle) {
+      shuffleInPlace(generatedIds, createRandom(`${seed}:token_ids`));
+    }
+    generated.forEach((combination, index) => {
+      const id = generatedIds[index]!;
+      combinations.push(combination.id === id ? combination : this.traitSelector.renumberCombination(combination, id));
+    });
+
+    if (tokens.length > 0) {
+      logger.info('Placed 1/1 tokens', {
+        oneOfOnes: tokens.length,
+        ids: combinations.filter(c => c.oneOfOne).map(c => c.id)
+      });
+    }
+    return combinations.sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * The IDs a run hands out: from token_ids.start, or after the existing collection when
+   * extending it, skipping reserved ranges.
+   */
+  private getTokenIds(count: number): number[] {
+    const reserved = this.config.token_ids?.reserved || [];
+    const start = this.config.token_ids?.start ?? 1;
+    const ids: number[] = [];
+    for (let id = this.existing ? Math.max(start, this.existing.lastId + 1) : start; ids.length < count; id++) {
+      const range = reserved.find(r => id >= r.from && id <= r.to);
+      if (range) {
+        id = range.to;
+        continue;
+      }
+      ids.push(id);
+    }
+    return ids;
+  }
+
+  private getFirstTokenId(): number {
+    return this.getTokenIds(1)[0]!;
+  }
+
+  private describeTokenIds(ids: number[]): string {
+    const range = `${ids[0]}-${ids[ids.length - 1]}`;
+    return this.config.token_ids?.reserved?.length
+      ? `reserved or outside the token IDs assigned (${range})`
+      : `outside the token IDs assigned (${range})`;
+  }
+
+  // Reads the attributes of every token in output/metadata/ethereum for an --extend run
+  private async loadExistingCollection(): Promise<ExistingCollection> {
+    const metadataDir = path.join(process.cwd(), 'output', 'metadata', 'ethereum');
+    const files = await fs.pathExists(metadataDir)
+      ? (await fs.readdir(metadataDir)).filter((file: string) => /^\d+\.json$/.test(file))
+      : [];
+    if (files.length === 0) {
+      throw new GeneratorError(
+        ErrorType.FILE_ERROR,
+        'No existing collection to extend: output/metadata/ethereum has no token metadata',
+        { metadataDir }
+      );
+    }
+
+    const tokens: Attribute[][] = [];
+    let lastId = 0;
+    for (const file of files) {
+      const metadata = await fs.readJson(path.join(metadataDir, file));
+      tokens.push(Array.isArray(metadata.attributes) ? metadata.attributes : []);
+      lastId = Math.max(lastId, parseInt(path.basename(file, '.json'), 10));
+    }
+
+    logger.info('Extending existing collection', { tokens: tokens.length, lastId });
+    return { lastId, tokens, matched: null };
+  }
+
+  private async addExistingTokens(): Promise<void> {
+    if (!this.existing || this.existing.matched !== null) {
+      return;
+    }
+    if (!this.layerProcessor.getValidationResult()?.isValid) {
+      await this.layerProcessor.validateStructure();
+    }
+    this.existing.matched = await this.traitSelector.addExistingTokens(this.existing.tokens);
+  }
+
+  // Resolves the seed for this run (CLI > config > fresh random) and seeds trait selection with it
+  private applySeed(override?: string): string {
+    const configured = this.config.generation.seed;
+    const seed = override ?? (configured !== undefined && configured !== null ? String(configured) : generateSeed());
+    this.seed = seed;
+    this.traitSelector.useSeed(seed);
+    return seed;
+  }
+
+  private getGenerationInfo(): GenerationInfo {
+    return {
+      timestamp: new Date().toISOString(),
+      version: GENERATOR_VERSION,
+      seed: this.seed ?? '',
+      ...(this.existing ? { first_token_id: this.getFirstTokenId() } : {})
+    };
+  }
+
   private async loadCombinationsFromMetadata(): Promise<TraitCombination[]> {
     const metadataDir = path.join(process.cwd(), 'output', 'metadata');
     
@@ -392,15 +753,32 @@ export class Generator {
     return combinations.sort((a, b) => a.id - b.id);
   }
 
+  // An --extend run keeps the collection file of the earlier phases, adding its own phase and the new supply
+  private async extendCollectionMetadata(file: string, collection: any): Promise<any> {
+    if (!this.existing || !await fs.pathExists(file)) {
+      return collection;
+    }
+    const previous = await fs.readJson(file);
+    const phases: GenerationInfo[] = previous.phases || (previous.generation ? [previous.generation] : []);
+    return {
+      ...previous,
+      total_supply: collection.total_supply,
+      phases: [...phases, collection.generation]
+    };
+  }
+
   private generateCollectionMetadata(combinations: TraitCombination[], format: 'ethereum' | 'solana'): any {
     const base = {
       name: this.config.metadata.name_prefix,
       description: this.config.metadata.description,
       image: this.config.metadata.image_base_uri,
       external_url: this.config.metadata.external_url,
-      total_supply: combinations.length,
+      total_supply: (this.existing?.tokens.length || 0) + combinations.length,
       created_at: new Date().toISOString(),
-      traits: [] // This would be populated with trait statistics
+      traits: [], // This would be populated with trait statistics
+      // Re-running with this seed (and the same config and layers) regenerates the exact same collection;
+      // --extend phases keep it and record their own seeds under `phases`
+      generation: this.getGenerationInfo()
     };
 
     if (format === 'solana') {
@@ -1,22 +1,75 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { GeneratorError, ErrorType } from '../types/errors';
-import { TraitHierarchy, ValidationResult, Trait } from '../types/traits';
+import { FrameAlignmentMode } from '../types/config';
+import { FrameTiming, FrameTimingManifest, SpriteSheetManifest, TraitHierarchy, ValidationResult, Trait, TraitAssets, TraitCategory, TraitManifest } from '../types/traits';
 import { VALIDATION_RULES } from '../constants/validation';
+import { TraitManifestValidator } from '../validators/traitManifestValidator';
+import { AnimatedSourceCache, ExpandedAnimation, isAnimatedPng } from './AnimatedSourceCache';
 import logger from '../utils/logger';
 
+type TraitNode = TraitHierarchy[string][string];
+
+// A trait or folder name without its #weight suffix, as rule keys and variant folders use it
+export function cleanTraitName(name: string): string {
+  return (name || '').split('#')[0]?.trim() || '';
+}
+
+// Clean names of the leaf traits below a layer or category folder
+export function collectLeafNames(traits: TraitHierarchy[string], names: Set<string> = new Set()): Set<string> {
+  for (const [name, trait] of Object.entries(traits)) {
+    if (trait.subTraits) {
+      // parseTraitType stores nested traits directly under subTraits (name -> trait)
+      collectLeafNames(trait.subTraits as unknown as TraitHierarchy[string], names);
+    } else {
+      names.add(cleanTraitName(name));
+    }
+  }
+  return names;
+}
+
+// On a variant_by layer, a folder whose subfolders are all leaves named after traits of the
+// variant-by layer is one trait with per-variant assets, e.g. Clothes/Hoodie/{Human,Robot}
+export function isVariantFolder(node: TraitNode, variantNames: Set<string>): boolean {
+  const variants = Object.entries((node.subTraits || {}) as unknown as TraitHierarchy[string]);
+  return variants.length > 0 && variants.every(([name, variant]) => variantNames.has(cleanTraitName(name)) && !variant.subTraits);
+}
+
+// Display duration in a frame's file name, e.g. frame_001@500ms.png
+const FRAME_DURATION_SUFFIX = /@([1-9]\d*)ms(?=\.[^.]+$)/;
+
+const isLayerImage = (file: string): boolean =>
+  [...VALIDATION_RULES.SUPPORTED_IMAGE_FORMATS, ...VALIDATION_RULES.ANIMATED_SOURCE_FORMATS]
+    .some(ext => file.toLowerCase().endsWith(ext));
+
 export class LayerProcessor {
   private layersPath: string;
   private validationResult: ValidationResult | null = null;
   private requiredFrameCount: number = 12; // Default, will be set from config
   private traitCache: Map<string, Trait[]> = new Map();
   private hierarchy: TraitHierarchy = {};
-
-  constructor(layersPath: string, requiredFrameCount?: number) {
+  private manifestValidator = new TraitManifestValidator();
+  // variant_by config: layer -> layer whose selected trait picks the asset subfolder
+  private variantBy: Record<string, string>;
+  // Outside the fixed mode traits keep their own loop length; AnimationGenerator aligns them per token
+  private frameAlignment: FrameAlignmentMode;
+  // Animated GIF/APNG/WebP leaves are read from their expanded frames in here
+  private sourceCache: AnimatedSourceCache;
+
+  constructor(
+    layersPath: string,
+    requiredFrameCount?: number,
+    variantBy: Record<string, string> = {},
+    frameAlignment: FrameAlignmentMode = 'fixed',
+    cacheDir?: string
+  ) {
     this.layersPath = layersPath;
     if (requiredFrameCount) {
       this.requiredFrameCount = requiredFrameCount;
     }
+    this.variantBy = variantBy;
+    this.frameAlignment = frameAlignment;
+    this.sourceCache = new AnimatedSourceCache(cacheDir);
   }
 
   async validateStructure(): Promise<ValidationResult> {
@@ -119,7 +172,8 @@ export class LayerProcessor {
     return hierarchy;
   }
 
-  private async parseTraitType(traitTypePath: string, errors: string[]): Promise<any> {
+  // Part folder names are inherited: a category's trait.json can declare parts for every trait below it
+  private async parseTraitType(traitTypePath: string, errors: string[], partNames: string[] = [...VALIDATION_RULES.TRAIT_PART_NAMES]): Promise<any> {
     const traits: any = {};
     
     try {
@@ -128,17 +182,21 @@ export class LayerProcessor {
       
       for (const entry of entries) {
         if (!entry.isDirectory()) {
+          // An intermediate trait's own manifest sits next to its sub-trait folders
+          if (entry.name === VALIDATION_RULES.TRAIT_MANIFEST_FILE) continue;
           errors.push(`Invalid structure: ${entry.name} is a file in trait directory`);
           continue;
         }
 
         const traitName = entry.name;
         const traitPath = path.join(traitTypePath, traitName);
+        const manifest = await this.readManifest(traitPath, traitName, errors);
+        const traitPartNames = [...new Set([...partNames, ...Object.keys(manifest?.render?.parts || {})])];
         
-        // Parse weight from folder name
+        // Parse weight from folder name; trait.json takes precedence
         const weightMatch = traitName.match(/^(.+)\((\d+)\)$/);
         const cleanName = weightMatch ? weightMatch[1] : traitName;
-        const weight = weightMatch ? parseInt(weightMatch[2]!) : 1;
+        const weight = manifest?.weight ?? (weightMatch ? parseInt(weightMatch[2]!) : 1);
 
         if (weight < VALIDATION_RULES.MIN_WEIGHT || weight > VALIDATION_RULES.MAX_WEIGHT) {
           errors.push(`Invalid weight for ${traitName}: ${weight} (must be between ${VALIDATION_RULES.MIN_WEIGHT} and ${VALIDATION_RULES.MAX_WEIGHT})`);
@@ -153,13 +211,16 @@ export class LayerProcessor {
           continue;
         }
 
+        const { parts, folders } = hasSubdirs ? await this.getPartFolders(traitPath, traitPartNames) : { parts: [], folders: [] };
+        if (parts.length > 0 && parts.length < folders.length) {
+          errors.push(`Invalid structure: ${traitName} mixes render parts (${parts.join(', ')}) and sub-traits`);
+          continue;
+        }
+
         if (hasImages) {
-          // Leaf directory - contains frames
-          const originalFrames = await this.getImageFiles(traitPath);
-          
-          // Validate for actual problems (double extensions, etc.) but allow single files
-          const validationErrors = await this.validateLeafDirectory(traitPath, traitName, originalFrames);
-          errors.push(...validationErrors);
+          // Leaf directory - contains frames, or one animated file expanded into frames
+          const { path: framesPath, frames: originalFrames, timing } =
+            await this.readLeafFrames(traitPath, traitName, await this.getImageFiles(traitPath), errors);
           
           const frames = this.loopFramesToRequiredCount(originalFrames);
           logger.debug('Found leaf trait', { 
@@ -169,10 +230,22 @@ export class LayerProcessor {
             finalFrameCount: frames.length,
             requiredFrameCount: this.requiredFrameCount
           });
+          traits[cleanName!] = {
+            weight,
+            path: framesPath,
+            frames,
+            ...(timing ? { timing } : {}),
+            ...(manifest ? { manifest } : {})
+          };
+        } else if (parts.length > 0) {
+          // Split leaf - front/back (or named) frame sets composited at their own depths
+          logger.debug('Found split trait', { traitName, cleanName });
           traits[cleanName!] = {
             weight,
             path: traitPath,
-            frames
+            frames: [],
+            parts: await this.parseTraitParts(traitPath, traitName, errors),
+            ...(manifest ? { manifest } : {})
           };
         } else if (hasSubdirs) {
           // Intermediate directory - recurse
@@ -181,7 +254,8 @@ export class LayerProcessor {
             weight,
             path: traitPath,
             frames: [],
-            subTraits: await this.parseTraitType(traitPath, errors)
+            subTraits: await this.parseTraitType(traitPath, errors, traitPartNames),
+            ...(manifest ? { manifest } : {})
           };
         } else {
           errors.push(`Empty trait directory: ${traitName}`);
@@ -196,13 +270,180 @@ export class LayerProcessor {
     return traits;
   }
 
+  // Subfolders named like render parts; a folder is split into parts when all its subfolders are
+  private async getPartFolders(traitPath: string, partNames: string[]): Promise<{ parts: string[]; folders: string[] }> {
+    const entries = await fs.readdir(traitPath, { withFileTypes: true });
+    const folders = entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+    return { parts: folders.filter(folder => partNames.includes(folder)), folders };
+  }
+
+  private async parseTraitParts(
+    traitPath: string,
+    traitName: string,
+    errors: string[]
+  ): Promise<Record<string, { path: string; frames: string[]; timing?: FrameTiming }>> {
+    const parts: Record<string, { path: string; frames: string[]; timing?: FrameTiming }> = {};
+    const entries = await fs.readdir(traitPath, { withFileTypes: true });
+
+    for (const entry of entries.filter(entry => entry.isDirectory())) {
+      const partPath = path.join(traitPath, entry.name);
+      const partName = `${traitName}/${entry.name}`;
+
+      if (await this.hasSubdirectories(partPath)) {
+        errors.push(`Invalid structure: render part ${partName} contains subdirectories`);
+        continue;
+      }
+      const files = await this.getImageFiles(partPath);
+      if (files.length === 0) {
+        errors.push(`Empty trait directory: ${partName}`);
+        continue;
+      }
+      const { path: framesPath, frames, timing } = await this.readLeafFrames(partPath, partName, files, errors);
+      parts[entry.name] = { path: framesPath, frames: this.loopFramesToRequiredCount(frames), ...(timing ? { timing } : {}) };
+    }
+    return parts;
+  }
+
+  // Frames of a leaf or render part folder; those of an animated source or sprite sheet live in the cache instead
+  private async readLeafFrames(
+    dirPath: string,
+    name: string,
+    files: string[],
+    errors: string[]
+  ): Promise<{ path: string; frames: string[]; timing: FrameTiming | null }> {
+    // Validate for actual problems (double extensions, etc.) but allow single files
+    errors.push(...await this.validateLeafDirectory(dirPath, name, files));
+
+    const animation = files.includes(VALIDATION_RULES.SPRITE_SHEET_FILE)
+      ? await this.sliceSpriteSheet(dirPath, name, files, errors)
+      : await this.expandAnimatedSource(dirPath, name, files, errors);
+    if (!animation) {
+      return { path: dirPath, frames: files, timing: await this.readFrameTiming(dirPath, name, files, errors) };
+    }
+
+    const embedded = Object.fromEntries(animation.frames
+      .map((frame, i) => [frame, animation.durations[i] ?? 0] as const)
+      .filter(([, duration]) => duration > 0));
+    return {
+      path: animation.dir,
+      frames: animation.frames,
+      timing: await this.readFrameTiming(dirPath, name, animation.frames, errors, embedded)
+    };
+  }
+
+  // A sheet.png, sliced by the atlas or grid in an optional sheet.json
+  private async sliceSpriteSheet(dirPath: string, name: string, files: string[], errors: string[]): Promise<ExpandedAnimation | null> {
+    if (files.length > 1) {
+      errors.push(`Invalid structure: ${name} must contain either a ${VALIDATION_RULES.SPRITE_SHEET_FILE} or frames, not both`);
+      return null;
+    }
+
+    let layout: SpriteSheetManifest | null = null;
+    const layoutPath = path.join(dirPath, VALIDATION_RULES.SPRITE_SHEET_ATLAS_FILE);
+    if (await fs.pathExists(layoutPath)) {
+      try {
+        const result = this.manifestValidator.validateSheet(await fs.readJson(layoutPath));
+        result.errors.forEach(message => errors.push(`Invalid ${VALIDATION_RULES.SPRITE_SHEET_ATLAS_FILE} in ${name}: ${message}`));
+        if (!result.sheet) return null;
+        layout = result.sheet;
+      } catch (error) {
+        errors.push(`Invalid ${VALIDATION_RULES.SPRITE_SHEET_ATLAS_FILE} in ${name}: ${error instanceof Error ? error.message : error}`);
+        return null;
+      }
+    }
+
+    try {
+      return await this.sourceCache.slice(path.join(dirPath, VALIDATION_RULES.SPRITE_SHEET_FILE), layout);
+    } catch (error) {
+      errors.push(`Invalid sprite sheet in ${name}: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  private async expandAnimatedSource(dirPath: string, name: string, files: string[], errors: string[]): Promise<ExpandedAnimation | null> {
+    const isAnimated = async (file: string) => !file.toLowerCase().endsWith('.png') || await isAnimatedPng(path.join(dirPath, file));
+    const animated: string[] = [];
+    for (const file of files) {
+      if (await isAnimated(file)) animated.push(file);
+    }
+    if (animated.length === 0) {
+      return null;
+    }
+    if (files.length > 1) {
+      errors.push(`Invalid structure: ${name} must contain either PNG frames or a single animated GIF, APNG or WebP (found ${animated.join(', ')} among ${files.length} files)`);
+      return null;
+    }
+
+    try {
+      return await this.sourceCache.expand(path.join(dirPath, animated[0]!));
+    } catch (error) {
+      errors.push(`Invalid animated source in ${name}: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  private async readManifest(traitPath: string, traitName: string, errors: string[]): Promise<TraitManifest | null> {
+    const manifestPath = path.join(traitPath, VALIDATION_RULES.TRAIT_MANIFEST_FILE);
+    if (!await fs.pathExists(manifestPath)) {
+      return null;
+    }
+
+    let raw: unknown;
+    try {
+      raw = await fs.readJson(manifestPath);
+    } catch (error) {
+      errors.push(`Invalid ${VALIDATION_RULES.TRAIT_MANIFEST_FILE} in ${traitName}: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+
+    const { manifest, errors: manifestErrors } = this.manifestValidator.validate(raw);
+    manifestErrors.forEach(message => errors.push(`Invalid ${VALIDATION_RULES.TRAIT_MANIFEST_FILE} in ${traitName}: ${message}`));
+    return manifest;
+  }
+
+  /**
+   * Per-frame durations of a leaf (or render part) folder: a timing.json `frames` entry, else the
+   * delay embedded in an animated source or the frame's @<n>ms file name suffix, else the
+   * timing.json `default`. Null when the folder declares none.
+   */
+  private async readFrameTiming(
+    dirPath: string,
+    name: string,
+    frames: string[],
+    errors: string[],
+    embedded: FrameTiming = {}
+  ): Promise<FrameTiming | null> {
+    const timingPath = path.join(dirPath, VALIDATION_RULES.FRAME_TIMING_FILE);
+    let manifest: FrameTimingManifest | null = null;
+    if (await fs.pathExists(timingPath)) {
+      try {
+        const result = this.manifestValidator.validateTiming(await fs.readJson(timingPath));
+        result.errors.forEach(message => errors.push(`Invalid ${VALIDATION_RULES.FRAME_TIMING_FILE} in ${name}: ${message}`));
+        manifest = result.timing;
+      } catch (error) {
+        errors.push(`Invalid ${VALIDATION_RULES.FRAME_TIMING_FILE} in ${name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    const unknownFrames = Object.keys(manifest?.frames || {}).filter(frame => !frames.includes(frame));
+    if (unknownFrames.length > 0) {
+      errors.push(`${VALIDATION_RULES.FRAME_TIMING_FILE} in ${name} lists unknown frames: ${unknownFrames.join(', ')}`);
+    }
+
+    const timing: FrameTiming = {};
+    for (const frame of frames) {
+      const suffix = FRAME_DURATION_SUFFIX.exec(frame);
+      const duration = manifest?.frames?.[frame] ?? embedded[frame] ?? (suffix ? parseInt(suffix[1]!, 10) : manifest?.default);
+      if (duration !== undefined) timing[frame] = duration;
+    }
+    return Object.keys(timing).length > 0 ? timing : null;
+  }
+
   private async hasImageFiles(dirPath: string): Promise<boolean> {
     try {
       const entries = await fs.readdir(dirPath);
       return entries.some((entry: string) => 
-        VALIDATION_RULES.SUPPORTED_IMAGE_FORMATS.some(ext => 
-          entry.toLowerCase().endsWith(ext)
-        )
+        isLayerImage(entry)
       );
     } catch {
       return false;
@@ -222,15 +463,11 @@ export class LayerProcessor {
     try {
       const entries = await fs.readdir(dirPath);
       return entries
-        .filter((entry: string) => 
-          VALIDATION_RULES.SUPPORTED_IMAGE_FORMATS.some(ext => 
-            entry.toLowerCase().endsWith(ext)
-          )
-        )
+        .filter((entry: string) => isLayerImage(entry))
         .sort((a: string, b: string) => {
-          // Extract numbers from filenames for numerical sorting
+          // Extract numbers from filenames for numerical sorting (ignoring any @<n>ms duration)
           const getNumber = (filename: string): number => {
-            const match = filename.match(/(\d+)\./);
+            const match = filename.replace(FRAME_DURATION_SUFFIX, '').match(/(\d+)\./);
             return match && match[1] ? parseInt(match[1], 10) : 0;
           };
           return getNumber(a) - getNumber(b);
@@ -256,7 +493,10 @@ export class LayerProcessor {
       
       // Check for non-image files
       const nonImageFiles = entries.filter(entry => 
-        !['.png', '.jpg', '.jpeg', '.webp'].some(ext => entry.toLowerCase().endsWith(ext))
+        entry !== VALIDATION_RULES.TRAIT_MANIFEST_FILE &&
+        entry !== VALIDATION_RULES.FRAME_TIMING_FILE &&
+        entry !== VALIDATION_RULES.SPRITE_SHEET_ATLAS_FILE &&
+        !['.png', '.jpg', '.jpeg', '.webp', '.gif'].some(ext => entry.toLowerCase().endsWith(ext))
       );
       if (nonImageFiles.length > 0) {
         errors.push(`Non-image files found in ${traitName}: ${nonImageFiles.join(', ')}`);
@@ -275,8 +515,8 @@ export class LayerProcessor {
   }
 
   private loopFramesToRequiredCount(originalFrames: string[]): string[] {
-    if (originalFrames.length === 0) {
-      return [];
+    if (originalFrames.length === 0 || this.frameAlignment !== 'fixed') {
+      return originalFrames;
     }
 
     if (originalFrames.length >= this.requiredFrameCount) {
@@ -328,6 +568,14 @@ export class LayerProcessor {
           frameCounts.push(traitObj.frames.length);
           logger.debug('Added trait', { name, frameCount: traitObj.frames.length, totalTraits, totalFrames });
         }
+        // A split trait counts once, with the frames of all its parts
+        else if (traitObj.parts) {
+          const partFrames = Object.values(traitObj.parts as Record<string, { frames: string[] }>)
+            .reduce((sum, part) => sum + part.frames.length, 0);
+          totalTraits++;
+          totalFrames += partFrames;
+          frameCounts.push(partFrames);
+        }
         // Check if this is an intermediate trait (has sub-traits)
         else if (traitObj.subTraits) {
           logger.debug('Traversing sub-traits', { name, subTraitCount: Object.keys(traitObj.subTraits).length });
@@ -356,6 +604,10 @@ export class LayerProcessor {
     return this.validationResult;
   }
 
+  getHierarchy(): TraitHierarchy {
+    return this.hierarchy;
+  }
+
   async getAvailableTraits(traitType: string): Promise<any[]> {
     // Check cache first
     if (this.traitCache.has(traitType)) {
@@ -382,7 +634,9 @@ export class LayerProcessor {
 
     // Convert the trait type object to an array of traits
     const traits: any[] = [];
-    this.collectLeafTraits(traitTypeTraits, traitType, traits);
+    const variantBy = this.variantBy[traitType];
+    const variantNames = variantBy && hierarchy[variantBy] ? collectLeafNames(hierarchy[variantBy]) : null;
+    this.collectLeafTraits(traitTypeTraits, traitType, traits, [], {}, variantBy && variantNames ? { variantBy, variantNames } : null);
 
     // Cache the result
     this.traitCache.set(traitType, traits);
@@ -391,23 +645,92 @@ export class LayerProcessor {
     return traits;
   }
 
-  private collectLeafTraits(traitData: any, traitType: string, traits: any[]): void {
+  /**
+   * Swaps the assets of a variant trait for the subfolder named after the trait selected on its
+   * variant-by layer. Selection rules keep a variant trait away from traits it has no folder for.
+   */
+  resolveVariant(trait: Trait, selectedTraits: Trait[]): Trait {
+    if (!trait.variants || !trait.variantBy) {
+      return trait;
+    }
+
+    const owner = selectedTraits.find(selected => selected.type === trait.variantBy);
+    const variant = owner ? trait.variants[cleanTraitName(owner.name)] : undefined;
+    if (!variant) {
+      throw new GeneratorError(
+        ErrorType.PROCESSING_ERROR,
+        `${trait.type}:${trait.name} has no variant for ${trait.variantBy}:${owner?.name ?? '(none)'}`,
+        { variants: Object.keys(trait.variants) }
+      );
+    }
+
+    const { variants, variantBy, parts, timing, ...resolved } = trait;
+    return { ...resolved, ...variant };
+  }
+
+  private toAssets(traitObj: any): TraitAssets {
+    return {
+      path: traitObj.path,
+      frames: traitObj.frames,
+      ...(traitObj.timing ? { timing: traitObj.timing } : {}),
+      ...(traitObj.parts ? {
+        parts: Object.entries(traitObj.parts as Record<string, { path: string; frames: string[]; timing?: FrameTiming }>)
+          .map(([name, part]) => ({ name, path: part.path, frames: part.frames, ...(part.timing ? { timing: part.timing } : {}) }))
+      } : {})
+    };
+  }
+
+  // Leaves keep the chain of categories above them so selection can roll each level by its own weight.
+  // Tags, rules, render options and the tier of a category's trait.json apply to every trait below it
+  private collectLeafTraits(
+    traitData: any,
+    traitType: string,
+    traits: any[],
+    lineage: TraitCategory[] = [],
+    inherited: TraitManifest = {},
+    variants: { variantBy: string; variantNames: Set<string> } | null = null
+  ): void {
     for (const [traitName, trait] of Object.entries(traitData)) {
       const traitObj = trait as any;
+      const manifest: TraitManifest = traitObj.manifest || {};
+      const tags = [...new Set([...(inherited.tags || []), ...(manifest.tags || [])])];
+      const tier = manifest.tier ?? inherited.tier;
+      const rules = [...(inherited.rules || []), ...(manifest.rules || [])];
+      const parts = inherited.render?.parts || manifest.render?.parts ? { ...inherited.render?.parts, ...manifest.render?.parts } : undefined;
+      const render = inherited.render || manifest.render ? { ...inherited.render, ...manifest.render, ...(parts ? { parts } : {}) } : undefined;
       
-      // If this trait has frames, it's a leaf trait
-      if (traitObj.frames && traitObj.frames.length > 0) {
+      const variantFolder = variants !== null && isVariantFolder(traitObj, variants.variantNames);
+
+      // If this trait has frames (or render parts, or per-variant assets), it's a leaf trait
+      if ((traitObj.frames && traitObj.frames.length > 0) || traitObj.parts || variantFolder) {
         traits.push({
           type: traitType,
           name: traitName,
           weight: traitObj.weight,
-          path: traitObj.path,
-          frames: traitObj.frames
+          ...(variantFolder ? {
+            path: traitObj.path,
+            frames: [],
+            variantBy: variants!.variantBy,
+            variants: Object.fromEntries(Object.entries(traitObj.subTraits).map(([name, variant]) => [cleanTraitName(name), this.toAssets(variant)]))
+          } : this.toAssets(traitObj)),
+          lineage,
+          ...(manifest.display_name ? { displayName: manifest.display_name } : {}),
+          ...(manifest.description !== undefined ? { description: manifest.description } : {}),
+          ...(tags.length > 0 ? { tags } : {}),
+          ...(manifest.metadata_value ? { metadataValue: manifest.metadata_value } : {}),
+          ...(rules.length > 0 ? { rules } : {}),
+          ...(render ? { render } : {}),
+          ...(tier ? { tier } : {})
         });
       }
       // If this trait has sub-traits, recurse into them
       else if (traitObj.subTraits) {
-        this.collectLeafTraits(traitObj.subTraits, traitType, traits);
+        const category: TraitCategory = {
+          name: traitName,
+          weight: traitObj.weight,
+          ...(manifest.display_name ? { displayName: manifest.display_name } : {})
+        };
+        this.collectLeafTraits(traitObj.subTraits, traitType, traits, [...lineage, category], { tags, rules, ...(render ? { render } : {}), ...(tier ? { tier } : {}) }, variants);
       }
     }
   }
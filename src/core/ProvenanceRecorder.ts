@@ -0,0 +1,337 @@
+import crypto from 'crypto';
+import path from 'path';
+import fs from 'fs-extra';
+import { GeneratorConfig } from '../types/config';
+import { GenerationInfo, ProvenanceRecord, ProvenanceToken } from '../types/metadata';
+import { GeneratorError, ErrorType } from '../types/errors';
+import { VALIDATION_RULES } from '../constants/validation';
+import logger from '../utils/logger';
+
+export interface ProvenanceVerification {
+  isValid: boolean;
+  errors: string[];
+  record: ProvenanceRecord;
+  computedHash: string;
+}
+
+// SHA-256 of the hex hashes of every token, concatenated in the original token order
+export function combineHashes(tokens: ProvenanceToken[]): string {
+  const ordered = [...tokens].sort((a, b) => a.index - b.index).map(token => token.hash).join('');
+  return crypto.createHash('sha256').update(ordered).digest('hex');
+}
+
+// The reveal offset: SHA-256 of the value published after the provenance hash, modulo the supply
+export function getStartingIndex(value: string, total: number): number {
+  const hash = crypto.createHash('sha256').update(value).digest('hex');
+  return Number(BigInt(`0x${hash}`) % BigInt(total));
+}
+
+/**
+ * Records a SHA-256 per final animation and the combined provenance hash in
+ * output/provenance.json. The reveal rotates tokens over their IDs by a starting index derived
+ * from a value nobody knew when the hash was published. IDs that were promised before the
+ * record (pinned 1/1s, tokens of earlier --extend phases) stay where they are.
+ */
+export class ProvenanceRecorder {
+  private config: GeneratorConfig;
+  private outputDir: string;
+
+  constructor(config: GeneratorConfig, outputDir: string = path.join(process.cwd(), 'output')) {
+    this.config = config;
+    this.outputDir = outputDir;
+  }
+
+  getRecordPath(): string {
+    return path.join(this.outputDir, 'provenance.json');
+  }
+
+  async record(): Promise<ProvenanceRecord> {
+    const existing = await this.readRecord();
+    if (existing?.reveal) {
+      throw new GeneratorError(
+        ErrorType.VALIDATION_ERROR,
+        `Provenance was already revealed (starting index ${existing.reveal.starting_index}); recording it again would lose the original token order`,
+        { recordPath: this.getRecordPath() }
+      );
+    }
+
+    const ids = await this.getAnimationIds();
+    if (ids.length === 0) {
+      throw new GeneratorError(
+        ErrorType.FILE_ERROR,
+        'No animations to hash in output/animations. Run animation assembly first.',
+        { animationsDir: this.getAnimationsDir() }
+      );
+    }
+
+    const tokens: ProvenanceToken[] = [];
+    for (const [index, id] of ids.entries()) {
+      tokens.push({ index, token_id: id, hash: await this.hashFile(this.getAnimationPath(id)) });
+    }
+    const pinned = await this.getPinnedIds(ids);
+    const record: ProvenanceRecord = {
+      algorithm: 'sha256',
+      provenance_hash: combineHashes(tokens),
+      created_at: new Date().toISOString(),
+      tokens,
+      ...(pinned.length > 0 ? { pinned_token_ids: pinned } : {})
+    };
+
+    await fs.writeJson(this.getRecordPath(), record, { spaces: 2 });
+    logger.info('Provenance recorded', { tokens: tokens.length, provenanceHash: record.provenance_hash });
+    return record;
+  }
+
+  /**
+   * Applies the starting-index offset: the unpinned token at original position i takes the ID
+   * at position (i + starting index) % count among the unpinned tokens. Animations, frames and
+   * both metadata formats move together, and names and URLs in the metadata follow the new ID.
+   *
+   * The record is marked pending while files move, so a reveal that fails part way is resumed
+   * by running it again with the same value.
+   */
+  async reveal(value: string): Promise<ProvenanceRecord> {
+    const pending = await this.readRecord();
+    if (pending?.reveal?.pending) {
+      if (pending.reveal.value !== value) {
+        throw new GeneratorError(
+          ErrorType.VALIDATION_ERROR,
+          `An interrupted reveal with "${pending.reveal.value}" must be finished with the same value`,
+          { reveal: pending.reveal }
+        );
+      }
+      return this.applyReveal(pending, pending.reveal.pending);
+    }
+
+    const verification = await this.verify();
+    const { record } = verification;
+    if (record.reveal) {
+      throw new GeneratorError(
+        ErrorType.VALIDATION_ERROR,
+        `Provenance was already revealed with starting index ${record.reveal.starting_index}`,
+        { reveal: record.reveal }
+      );
+    }
+    if (!verification.isValid) {
+      throw new GeneratorError(
+        ErrorType.VALIDATION_ERROR,
+        `Animations no longer match the recorded provenance: ${verification.errors.join('; ')}`,
+        { errors: verification.errors }
+      );
+    }
+
+    const rotated = this.getRotatedTokens(record);
+    const reveal = { value, starting_index: rotated.length > 0 ? getStartingIndex(value, rotated.length) : 0, revealed_at: new Date().toISOString() };
+    return this.applyReveal({ ...record, reveal: { ...reveal, pending: 'staging' } }, 'staging');
+  }
+
+  // Moves the files of a pending reveal from `stage` on, then records the new token IDs
+  private async applyReveal(pending: ProvenanceRecord, stage: 'staging' | 'moving'): Promise<ProvenanceRecord> {
+    const { pending: _, ...reveal } = pending.reveal!;
+    const newIds = this.rotate(pending, reveal.starting_index);
+    const moves = new Map(pending.tokens.map(token => [token.token_id, newIds.get(token.index) ?? token.token_id]));
+
+    if (stage === 'staging') {
+      await fs.writeJson(this.getRecordPath(), pending, { spaces: 2 });
+      await this.stageTokens(moves);
+      await fs.writeJson(this.getRecordPath(), { ...pending, reveal: { ...reveal, pending: 'moving' } }, { spaces: 2 });
+    }
+    await this.unstageTokens();
+
+    const revealed: ProvenanceRecord = {
+      ...pending,
+      tokens: pending.tokens.map(token => ({ ...token, token_id: moves.get(token.token_id)! })),
+      reveal
+    };
+    await fs.writeJson(this.getRecordPath(), revealed, { spaces: 2 });
+    logger.info('Provenance revealed', { startingIndex: reveal.starting_index, tokens: revealed.tokens.length });
+    return revealed;
+  }
+
+  // Recomputes every hash, the combined hash and the reveal offset from the files on disk
+  async verify(): Promise<ProvenanceVerification> {
+    const record = await this.readRecord();
+    if (!record) {
+      throw new GeneratorError(
+        ErrorType.FILE_ERROR,
+        'No provenance record found. Run the provenance command first.',
+        { recordPath: this.getRecordPath() }
+      );
+    }
+
+    const errors: string[] = [];
+    const computed: ProvenanceToken[] = [];
+    for (const token of record.tokens) {
+      const file = this.getAnimationPath(token.token_id);
+      if (!await fs.pathExists(file)) {
+        errors.push(`Token ${token.token_id}: animation is missing`);
+        computed.push(token);
+        continue;
+      }
+      const hash = await this.hashFile(file);
+      if (hash !== token.hash) {
+        errors.push(`Token ${token.token_id}: hash ${hash} doesn't match the recorded ${token.hash}`);
+      }
+      computed.push({ ...token, hash });
+    }
+
+    const recordedIds = new Set(record.tokens.map(token => token.token_id));
+    (await this.getAnimationIds())
+      .filter(id => !recordedIds.has(id))
+      .forEach(id => errors.push(`Token ${id}: animation is not in the provenance record`));
+
+    if (record.reveal?.pending) {
+      errors.push(`The reveal with "${record.reveal.value}" was interrupted; run it again with the same value to finish it`);
+    }
+    const rotatedCount = this.getRotatedTokens(record).length;
+    const startingIndex = record.reveal && rotatedCount > 0 ? getStartingIndex(record.reveal.value, rotatedCount) : 0;
+    if (record.reveal && record.reveal.starting_index !== startingIndex) {
+      errors.push(`Starting index ${record.reveal.starting_index} doesn't match ${startingIndex} derived from "${record.reveal.value}"`);
+    }
+    const expectedIds = this.rotate(record, record.reveal && !record.reveal.pending ? startingIndex : 0);
+    for (const token of record.tokens) {
+      const expected = expectedIds.get(token.index) ?? token.token_id;
+      if (token.token_id !== expected) {
+        errors.push(`Token at original position ${token.index} has ID ${token.token_id}, expected ${expected}`);
+      }
+    }
+
+    const computedHash = combineHashes(computed);
+    if (computedHash !== record.provenance_hash) {
+      errors.push(`Provenance hash ${computedHash} doesn't match the recorded ${record.provenance_hash}`);
+    }
+
+    return { isValid: errors.length === 0, errors, record, computedHash };
+  }
+
+  // Tokens the reveal moves, in their original order
+  private getRotatedTokens(record: ProvenanceRecord): ProvenanceToken[] {
+    const pinned = new Set(record.pinned_token_ids || []);
+    return record.tokens.filter(token => !pinned.has(token.token_id)).sort((a, b) => a.index - b.index);
+  }
+
+  // Original position -> token ID after rotating the unpinned tokens by `startingIndex`
+  private rotate(record: ProvenanceRecord, startingIndex: number): Map<number, number> {
+    const rotated = this.getRotatedTokens(record);
+    const ids = rotated.map(token => token.token_id).sort((a, b) => a - b);
+    return new Map(rotated.map((token, i) => [token.index, ids[(i + startingIndex) % ids.length]!]));
+  }
+
+  // 1/1 token_ids from the config, and every token before the latest --extend phase
+  private async getPinnedIds(ids: number[]): Promise<number[]> {
+    const pinned = new Set((this.config.one_of_ones?.tokens || []).flatMap(token => (token.token_id !== undefined ? [token.token_id] : [])));
+    const collectionPath = path.join(this.outputDir, 'ethereum_collection_metadata.json');
+    const phases: GenerationInfo[] = await fs.pathExists(collectionPath) ? (await fs.readJson(collectionPath)).phases || [] : [];
+    const phaseStart = phases[phases.length - 1]?.first_token_id;
+    return ids.filter(id => pinned.has(id) || (phaseStart !== undefined && id < phaseStart));
+  }
+
+  private async readRecord(): Promise<ProvenanceRecord | null> {
+    const recordPath = this.getRecordPath();
+    return await fs.pathExists(recordPath) ? fs.readJson(recordPath) : null;
+  }
+
+  private getAnimationsDir(): string {
+    return path.join(this.outputDir, 'animations');
+  }
+
+  private getAnimationPath(id: number): string {
+    return path.join(this.getAnimationsDir(), `${id}.${this.getExtension()}`);
+  }
+
+  private getExtension(): string {
+    return VALIDATION_RULES.ANIMATION_OUTPUTS[this.config.generation.output_format].extension;
+  }
+
+  // Token IDs with a final animation, in token order
+  private async getAnimationIds(): Promise<number[]> {
+    const dir = this.getAnimationsDir();
+    if (!await fs.pathExists(dir)) {
+      return [];
+    }
+    const pattern = new RegExp(`^(\\d+)\\.${this.getExtension()}$`);
+    return (await fs.readdir(dir))
+      .flatMap((file: string) => {
+        const match = pattern.exec(file);
+        return match ? [parseInt(match[1]!, 10)] : [];
+      })
+      .sort((a: number, b: number) => a - b);
+  }
+
+  private async hashFile(file: string): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    for await (const chunk of fs.createReadStream(file)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+
+  private getRevealTargets(): Array<{ dir: string; name: (id: number) => string; metadata: boolean }> {
+    const extension = this.getExtension();
+    return [
+      { dir: this.getAnimationsDir(), name: (id: number) => `${id}.${extension}`, metadata: false },
+      { dir: path.join(this.outputDir, 'frames'), name: (id: number) => `${id}`, metadata: false },
+      { dir: path.join(this.outputDir, 'metadata', 'ethereum'), name: (id: number) => `${id}.json`, metadata: true },
+      { dir: path.join(this.outputDir, 'metadata', 'solana'), name: (id: number) => `${id}.json`, metadata: true }
+    ];
+  }
+
+  // First pass: every moving file goes to a temporary name, since the rotation moves tokens onto
+  // each other's IDs. Files already staged by an interrupted run are skipped
+  private async stageTokens(moves: Map<number, number>): Promise<void> {
+    for (const target of this.getRevealTargets()) {
+      for (const [from, to] of moves) {
+        const source = path.join(target.dir, target.name(from));
+        const temporary = `${path.join(target.dir, target.name(to))}.reveal`;
+        if (from === to || !await fs.pathExists(source)) {
+          continue;
+        }
+        const staged = await fs.pathExists(temporary);
+        if (!target.metadata) {
+          if (!staged) await fs.move(source, temporary);
+          continue;
+        }
+        if (!staged) {
+          await fs.writeJson(temporary, this.renumberMetadata(await fs.readJson(source), from, to), { spaces: 2 });
+        }
+        await fs.remove(source);
+      }
+    }
+  }
+
+  // Second pass: staged files take their new names
+  private async unstageTokens(): Promise<void> {
+    for (const target of this.getRevealTargets()) {
+      if (!await fs.pathExists(target.dir)) continue;
+      for (const file of (await fs.readdir(target.dir)).filter((name: string) => name.endsWith('.reveal'))) {
+        await fs.move(path.join(target.dir, file), path.join(target.dir, file.slice(0, -'.reveal'.length)), { overwrite: true });
+      }
+    }
+  }
+
+  // Names and URLs embed the token ID; 1/1 names set in the config are left alone
+  private renumberMetadata(metadata: any, from: number, to: number): any {
+    const { name_prefix, image_base_uri, animation_base_uri } = this.config.metadata;
+    const moveUri = (uri: unknown) => {
+      if (typeof uri !== 'string') return uri;
+      const base = [image_base_uri, animation_base_uri].find(b => uri.startsWith(`${b}${from}.`));
+      return base !== undefined ? `${base}${to}${uri.slice(`${base}${from}`.length)}` : uri;
+    };
+
+    const renumbered = { ...metadata };
+    if (renumbered.name === `${name_prefix} #${from}`) {
+      renumbered.name = `${name_prefix} #${to}`;
+    }
+    renumbered.image = moveUri(renumbered.image);
+    if (renumbered.animation_url !== undefined) {
+      renumbered.animation_url = moveUri(renumbered.animation_url);
+    }
+    if (Array.isArray(renumbered.properties?.files)) {
+      renumbered.properties = {
+        ...renumbered.properties,
+        files: renumbered.properties.files.map((file: any) => ({ ...file, uri: moveUri(file.uri) }))
+      };
+    }
+    return renumbered;
+  }
+}
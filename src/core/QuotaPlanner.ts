@@ -0,0 +1,78 @@
+// Combinations of the quota'd layers: the quota'd trait (or free slot) a token takes on each of them
+export interface QuotaProfile {
+  classes: string[];
+  capacity: number; // unused unique combinations with this profile
+}
+
+// Tokens per profile, or why there is none: no split exists, or the search gave up before deciding
+export type QuotaAllocation = Map<string, number> | 'infeasible' | 'undecided';
+
+const MAX_ALLOCATION_STEPS = 200000;
+
+/**
+ * Splits the remaining tokens over the quota profiles so every class (a quota'd trait, or the
+ * free slot of a quota'd layer) gets exactly its target, without using a profile more often
+ * than it has unique combinations. This is what makes quotas on different layers hold
+ * together with the rules: a profile the rules forbid has no combinations at all.
+ *
+ * Depth-first over the profiles, bounding each count by what the classes still need and what
+ * the profiles after it can still cover; dead states are remembered so they're not re-explored.
+ */
+export function allocateQuotaProfiles(
+  profiles: Map<string, QuotaProfile>,
+  targets: Map<string, number>,
+  maxSteps: number = MAX_ALLOCATION_STEPS
+): QuotaAllocation {
+  // The most constrained profiles first, so forced counts surface early
+  const order = [...profiles.entries()]
+    .filter(([, profile]) => profile.capacity > 0)
+    .sort((a, b) => a[1].capacity - b[1].capacity);
+  const need = new Map(targets);
+  const cover = new Map<string, number>([...targets.keys()].map(key => [key, 0]));
+  for (const [, profile] of order) {
+    profile.classes.forEach(name => cover.set(name, (cover.get(name) ?? 0) + profile.capacity));
+  }
+  if ([...need].some(([name, count]) => count < 0 || count > (cover.get(name) ?? 0))) {
+    return 'infeasible';
+  }
+
+  const allocation = new Map<string, number>();
+  const deadEnds = new Set<string>();
+  let steps = 0;
+
+  const search = (index: number): boolean | null => {
+    if (index === order.length) {
+      return [...need.values()].every(count => count === 0);
+    }
+    if (++steps > maxSteps) return null;
+    const state = `${index}|${[...need.values()].join(',')}`;
+    if (deadEnds.has(state)) return false;
+
+    const [key, { classes, capacity }] = order[index]!;
+    classes.forEach(name => cover.set(name, cover.get(name)! - capacity));
+    let high = capacity;
+    let low = 0;
+    for (const name of classes) {
+      high = Math.min(high, need.get(name) ?? 0);
+      low = Math.max(low, (need.get(name) ?? 0) - cover.get(name)!);
+    }
+
+    let result: boolean | null = false;
+    for (let count = high; count >= low && result === false; count--) {
+      classes.forEach(name => need.set(name, need.get(name)! - count));
+      result = search(index + 1);
+      if (result) {
+        allocation.set(key, count);
+      }
+      classes.forEach(name => need.set(name, need.get(name)! + count));
+    }
+
+    classes.forEach(name => cover.set(name, cover.get(name)! + capacity));
+    if (result === false) deadEnds.add(state);
+    return result;
+  };
+
+  const found = search(0);
+  if (found === null) return 'undecided';
+  return found ? allocation : 'infeasible';
+}
@@ -0,0 +1,461 @@
+import { GeneratorError, ErrorType } from '../types/errors';
+import { GeneratorConfig, TraitRule } from '../types/config';
+import { Trait } from '../types/traits';
+import { cleanTraitName } from './LayerProcessor';
+
+// 'Type:Name', 'Name' (any type), a pattern such as 'Hat:*' / 'Hat:Crown*', or a tag such as '#royal' / 'Hat:#royal'
+export interface RuleAtom {
+  kind: 'atom';
+  key: string;
+  traitType: string | null;
+  pattern: string;
+  matcher: RegExp;
+  tag: string | null;
+}
+
+export type RuleExpression =
+  | RuleAtom
+  | { kind: 'not'; operand: RuleExpression }
+  | { kind: 'and' | 'or'; operands: RuleExpression[] };
+
+// Traits still selectable for a layer once every rule has run
+export interface RuleFilterResult {
+  traits: Trait[];
+  // Positions (in the current selection) of the traits whose rules eliminated candidates
+  culprits: Set<number>;
+  // Human-readable description of every rule that eliminated a candidate
+  reasons: string[];
+}
+
+// true / false once the selection decides it, null while a layer it depends on is still open
+type Truth = boolean | null;
+
+interface CompiledRule {
+  description: string;
+  // Must never evaluate to false for a finished token
+  constraint: RuleExpression | null;
+  // Weight overrides that apply once the condition is true (always when there is none)
+  condition: RuleExpression | null;
+  reweight: Array<{ target: RuleAtom; weight: number }>;
+  // Layers whose selection can change the outcome of the rule
+  layers: Set<string>;
+}
+
+const KEYWORDS = new Set(['AND', 'OR', 'NOT']);
+
+// Parentheses and the upper-case keywords separate atoms; everything else, spaces included, is part of a trait key
+function tokenize(source: string): string[] {
+  const tokens: string[] = [];
+  let words: string[] = [];
+  const flush = () => {
+    if (words.length > 0) {
+      tokens.push(words.join(' '));
+      words = [];
+    }
+  };
+
+  for (const part of source.split(/([()])|\s+/)) {
+    if (!part) continue;
+    if (part === '(' || part === ')' || KEYWORDS.has(part)) {
+      flush();
+      tokens.push(part);
+    } else {
+      words.push(part);
+    }
+  }
+  flush();
+  return tokens;
+}
+
+export function parseRuleAtom(key: string): RuleAtom {
+  const separator = key.indexOf(':');
+  const traitType = separator >= 0 ? key.slice(0, separator).trim() : '';
+  const name = (separator >= 0 ? key.slice(separator + 1) : key).trim();
+  const tag = name.startsWith('#') ? name.slice(1).trim() : null;
+  const pattern = tag === null ? name.split('#')[0]?.trim() || '' : name;
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+
+  return {
+    kind: 'atom',
+    key,
+    traitType: traitType && traitType !== '*' ? traitType : null,
+    pattern,
+    matcher: new RegExp(`^${escaped}$`),
+    tag
+  };
+}
+
+/**
+ * Parses a rule expression such as 'Body:Robot AND NOT (Hat:None OR Hat:Cowboy)'.
+ * NOT binds tighter than AND, which binds tighter than OR. `source` names the config
+ * entry in error messages.
+ */
+export function parseRuleExpression(expression: string, source: string): RuleExpression {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new GeneratorError(
+      ErrorType.CONFIG_ERROR,
+      `${source}: ${message} in "${expression}"`,
+      { source, expression }
+    );
+  };
+
+  const parseUnary = (): RuleExpression => {
+    const token = tokens[position];
+    if (token === undefined) {
+      return fail('unexpected end of expression');
+    }
+    if (token === 'NOT') {
+      position++;
+      return { kind: 'not', operand: parseUnary() };
+    }
+    if (token === '(') {
+      position++;
+      const inner = parseOr();
+      if (tokens[position] !== ')') {
+        fail('missing ")"');
+      }
+      position++;
+      return inner;
+    }
+    if (token === ')' || KEYWORDS.has(token)) {
+      return fail(`unexpected "${token}"`);
+    }
+    position++;
+    return parseRuleAtom(token);
+  };
+
+  const parseAnd = (): RuleExpression => {
+    const operands = [parseUnary()];
+    while (tokens[position] === 'AND') {
+      position++;
+      operands.push(parseUnary());
+    }
+    return operands.length === 1 ? operands[0]! : { kind: 'and', operands };
+  };
+
+  const parseOr = (): RuleExpression => {
+    const operands = [parseAnd()];
+    while (tokens[position] === 'OR') {
+      position++;
+      operands.push(parseAnd());
+    }
+    return operands.length === 1 ? operands[0]! : { kind: 'or', operands };
+  };
+
+  const result = parseOr();
+  if (position < tokens.length) {
+    fail(`unexpected "${tokens[position]}"`);
+  }
+  return result;
+}
+
+export function collectAtoms(expression: RuleExpression, atoms: RuleAtom[] = []): RuleAtom[] {
+  switch (expression.kind) {
+    case 'atom':
+      atoms.push(expression);
+      break;
+    case 'not':
+      collectAtoms(expression.operand, atoms);
+      break;
+    default:
+      expression.operands.forEach(operand => collectAtoms(operand, atoms));
+  }
+  return atoms;
+}
+
+// Wildcards mean "has a trait", so they never match the empty slot of an optional layer
+export function matchesAtom(atom: RuleAtom, trait: Trait): boolean {
+  if (atom.traitType !== null && atom.traitType !== trait.type) return false;
+  if (atom.tag !== null) return !!trait.tags?.includes(atom.tag);
+  if (trait.empty && atom.pattern.includes('*')) return false;
+  return atom.matcher.test((trait.name || '').split('#')[0]?.trim() || '');
+}
+
+const not = (operand: RuleExpression): RuleExpression => ({ kind: 'not', operand });
+const and = (...operands: RuleExpression[]): RuleExpression => ({ kind: 'and', operands });
+const or = (...operands: RuleExpression[]): RuleExpression => ({ kind: 'or', operands });
+
+/**
+ * Evaluates the `rules` section, and the legacy rule maps compiled down to the same form,
+ * against a partial selection. Rules are evaluated with three-valued logic: a candidate is
+ * only eliminated once a rule is definitely broken, so layers later in
+ * trait_processing_order still get their say.
+ */
+export class RuleEngine {
+  private layers: Map<string, Trait[]>;
+  private constraintsByLayer: Map<string, CompiledRule[]> = new Map();
+  private reweights: CompiledRule[] = [];
+  private atoms: RuleAtom[] = [];
+  // Layers (of trait_processing_order) holding a trait that matches each atom
+  private atomLayers: Map<RuleAtom, string[]> = new Map();
+
+  constructor(config: GeneratorConfig, layers: Map<string, Trait[]>) {
+    this.layers = layers;
+
+    const rules = [
+      ...this.compileLegacyRules(config),
+      ...this.compileRules(config.rules || [], 'rules', null),
+      ...this.compileTraitRules(),
+      ...this.compileVariantRules()
+    ];
+    for (const rule of rules) {
+      if (rule.constraint) {
+        rule.layers.forEach(layer => {
+          this.constraintsByLayer.set(layer, [...(this.constraintsByLayer.get(layer) || []), rule]);
+        });
+      } else {
+        this.reweights.push(rule);
+      }
+    }
+  }
+
+  /**
+   * Drops the candidates of `traitType` that would break a rule given the traits selected
+   * so far, then applies weight overrides; a weight of 0 removes the trait.
+   */
+  filterCandidates(traitType: string, candidates: Trait[], selectedTraits: Trait[]): RuleFilterResult {
+    const culprits = new Set<number>();
+    const reasons: string[] = [];
+    const assignment = new Map(selectedTraits.map(trait => [trait.type, trait]));
+    const positions = new Map(selectedTraits.map((trait, position) => [trait.type, position]));
+    const blame = (rule: CompiledRule) => rule.layers.forEach(layer => {
+      const position = positions.get(layer);
+      if (position !== undefined) culprits.add(position);
+    });
+
+    const constraints = this.constraintsByLayer.get(traitType) || [];
+    let traits = candidates.filter(trait => {
+      assignment.set(traitType, trait);
+      const broken = constraints.filter(rule => this.evaluate(rule.constraint!, assignment) === false);
+      broken.forEach(rule => {
+        blame(rule);
+        reasons.push(rule.description);
+      });
+      return broken.length === 0;
+    });
+    assignment.delete(traitType);
+
+    // Copy-on-write so the cached layer traits keep their original weights; later rules win
+    const weightSetBy = new Map<Trait, CompiledRule>();
+    for (const rule of this.reweights) {
+      if (rule.condition && this.evaluate(rule.condition, assignment) !== true) continue;
+      for (const { target, weight } of rule.reweight) {
+        traits = traits.map(trait => {
+          if (!matchesAtom(target, trait)) return trait;
+          const adjusted = { ...trait, weight };
+          weightSetBy.set(adjusted, rule);
+          return adjusted;
+        });
+      }
+    }
+
+    traits = traits.filter(trait => {
+      if (trait.weight > 0) return true;
+      const rule = weightSetBy.get(trait);
+      const traitKey = `${trait.type}:${trait.name.split('#')[0]}`;
+      if (rule) {
+        blame(rule);
+        reasons.push(`${rule.description} sets the weight of "${traitKey}" to 0`);
+      } else {
+        reasons.push(`"${traitKey}" has a weight of 0`);
+      }
+      return false;
+    });
+
+    return { traits, culprits, reasons };
+  }
+
+  // Traits with the same signature are interchangeable as far as every rule is concerned
+  getSignature(trait: Trait): string {
+    const matched = this.atoms.flatMap((atom, index) => (matchesAtom(atom, trait) ? [index] : []));
+    return `${trait.type}|${matched.join(',')}`;
+  }
+
+  private evaluate(expression: RuleExpression, assignment: Map<string, Trait>): Truth {
+    switch (expression.kind) {
+      case 'atom': {
+        let open = false;
+        for (const layer of this.atomLayers.get(expression) || []) {
+          const selected = assignment.get(layer);
+          if (!selected) {
+            open = true;
+          } else if (matchesAtom(expression, selected)) {
+            return true;
+          }
+        }
+        return open ? null : false;
+      }
+      case 'not': {
+        const value = this.evaluate(expression.operand, assignment);
+        return value === null ? null : !value;
+      }
+      case 'and': {
+        let result: Truth = true;
+        for (const operand of expression.operands) {
+          const value = this.evaluate(operand, assignment);
+          if (value === false) return false;
+          if (value === null) result = null;
+        }
+        return result;
+      }
+      case 'or': {
+        let result: Truth = false;
+        for (const operand of expression.operands) {
+          const value = this.evaluate(operand, assignment);
+          if (value === true) return true;
+          if (value === null) result = null;
+        }
+        return result;
+      }
+    }
+  }
+
+  private createRule(description: string, constraint: RuleExpression | null, condition: RuleExpression | null = null, reweight: CompiledRule['reweight'] = []): CompiledRule {
+    const atoms = collectAtoms(constraint || condition || or());
+    const layers = new Set<string>();
+    for (const atom of [...atoms, ...reweight.map(entry => entry.target)]) {
+      let atomLayers = this.atomLayers.get(atom);
+      if (!atomLayers) {
+        atomLayers = [...this.layers.entries()]
+          .filter(([, traits]) => traits.some(trait => matchesAtom(atom, trait)))
+          .map(([layer]) => layer);
+        this.atomLayers.set(atom, atomLayers);
+        this.atoms.push(atom);
+      }
+      // Reweight targets decide what a rule changes, not whether it applies
+      if (atoms.includes(atom)) atomLayers.forEach(layer => layers.add(layer));
+    }
+    return { description, constraint, condition, reweight, layers };
+  }
+
+  // `owner` is the extra condition of rules that only apply while a particular trait is selected
+  private compileRules(rules: TraitRule[], prefix: string, owner: RuleExpression | null): CompiledRule[] {
+    return rules.flatMap((rule, index) => {
+      const source = `${prefix}[${index}]`;
+      const parsed = rule.if ? parseRuleExpression(rule.if, `${source}.if`) : null;
+      const condition = owner && parsed ? and(owner, parsed) : owner || parsed;
+      const description = `${source}: ${[
+        rule.if ? `if ${rule.if}` : '',
+        rule.require ? `require ${rule.require}` : '',
+        rule.forbid ? `forbid ${rule.forbid}` : '',
+        rule.reweight ? `reweight ${Object.entries(rule.reweight).map(([key, weight]) => `${key}=${weight}`).join(', ')}` : ''
+      ].filter(Boolean).join(' ')}`;
+      const compiled: CompiledRule[] = [];
+
+      if (rule.require) {
+        const required = parseRuleExpression(rule.require, `${source}.require`);
+        compiled.push(this.createRule(description, condition ? or(not(condition), required) : required));
+      }
+      if (rule.forbid) {
+        const forbidden = parseRuleExpression(rule.forbid, `${source}.forbid`);
+        compiled.push(this.createRule(description, not(condition ? and(condition, forbidden) : forbidden)));
+      }
+      if (rule.reweight) {
+        const reweight = Object.entries(rule.reweight).map(([key, weight]) => ({ target: parseRuleAtom(key), weight }));
+        compiled.push(this.createRule(description, null, condition, reweight));
+      }
+      return compiled;
+    });
+  }
+
+  // Rules from trait.json files apply while their trait is selected
+  private compileTraitRules(): CompiledRule[] {
+    const rules: CompiledRule[] = [];
+    for (const traits of this.layers.values()) {
+      for (const trait of traits) {
+        if (!trait.rules || trait.rules.length === 0) continue;
+        const key = `${trait.type}:${trait.name.split('#')[0]}`;
+        rules.push(...this.compileRules(trait.rules, `${key} trait.json rules`, parseRuleAtom(key)));
+      }
+    }
+    return rules;
+  }
+
+  // A variant trait can only go with the traits of its variant-by layer it has an asset folder for
+  private compileVariantRules(): CompiledRule[] {
+    const rules: CompiledRule[] = [];
+    for (const traits of this.layers.values()) {
+      for (const trait of traits) {
+        if (!trait.variants || !trait.variantBy) continue;
+        const owners = this.layers.get(trait.variantBy) || [];
+        const covered = owners.filter(owner => trait.variants![cleanTraitName(owner.name)]);
+        if (covered.length === owners.length) continue;
+
+        const key = `${trait.type}:${trait.name.split('#')[0]}`;
+        const allowed = covered.map(owner => parseRuleAtom(`${owner.type}:${owner.name}`));
+        rules.push(this.createRule(
+          `variant_by: "${key}" has variants for ${allowed.length > 0 ? allowed.map(atom => `"${atom.key}"`).join(', ') : 'no selectable trait'} only`,
+          allowed.length > 0 ? or(not(parseRuleAtom(key)), or(...allowed)) : not(parseRuleAtom(key))
+        ));
+      }
+    }
+    return rules;
+  }
+
+  // The flat rule maps from before the rule language, expressed as rules
+  private compileLegacyRules(config: GeneratorConfig): CompiledRule[] {
+    const rules: CompiledRule[] = [];
+
+    // Incompatible traits can never share a token
+    for (const [trigger, targets] of Object.entries(config.incompatible_traits || {})) {
+      for (const target of targets) {
+        rules.push(this.createRule(
+          `incompatible_traits: "${trigger}" excludes "${target}"`,
+          not(and(parseRuleAtom(trigger), parseRuleAtom(target)))
+        ));
+      }
+    }
+
+    // A trigger pins every layer holding one of its forced/dependent traits to those traits
+    const pairings: Array<[string, string[], string]> = [
+      ...Object.entries(config.forced_pairings || {}).map(([trigger, targets]): [string, string[], string] =>
+        [trigger, targets, `forced_pairings: "${trigger}" forces ${targets.map(k => `"${k}"`).join(', ')}`]),
+      ...Object.entries(config.dependent_traits || {}).map(([trigger, dependent]): [string, string[], string] =>
+        [trigger, [dependent], `dependent_traits: "${trigger}" requires "${dependent}"`])
+    ];
+    for (const [trigger, targets, description] of pairings) {
+      for (const [layer, traits] of this.layers) {
+        // A typed target only pins its own layer; a name-only one pins every layer holding it
+        const allowed = targets
+          .map(target => parseRuleAtom(target))
+          .map(atom => ({ ...atom, traitType: atom.traitType ?? layer }))
+          .filter(atom => atom.traitType === layer && traits.some(trait => matchesAtom(atom, trait)));
+        if (allowed.length === 0) continue;
+        rules.push(this.createRule(description, or(not(parseRuleAtom(trigger)), or(...allowed))));
+      }
+    }
+
+    // Trait types listed in an exclusive group scope it: at most one of its traits from those layers
+    for (const [group, members] of Object.entries(config.exclusive_groups || {})) {
+      const scopedTypes = members.filter(member => this.layers.has(member));
+      const scoped = members
+        .filter(member => !this.layers.has(member))
+        .map(member => parseRuleAtom(member))
+        .flatMap(atom => scopedTypes
+          .filter(layer => (atom.traitType ?? layer) === layer)
+          .map(layer => ({ ...atom, traitType: layer })))
+        .filter(atom => (this.layers.get(atom.traitType) || []).some(trait => matchesAtom(atom, trait)));
+
+      scoped.forEach((first, i) => scoped.slice(i + 1)
+        .filter(second => second.traitType !== first.traitType)
+        .forEach(second => rules.push(this.createRule(
+          `exclusive_groups["${group}"]: "${first.traitType}:${first.pattern}" excludes "${second.traitType}:${second.pattern}"`,
+          not(and(first, second))
+        ))));
+    }
+
+    for (const [condition, adjustments] of Object.entries(config.conditional_rarity || {})) {
+      rules.push(this.createRule(
+        `conditional_rarity: "${condition}"`,
+        null,
+        parseRuleAtom(condition),
+        Object.entries(adjustments).map(([key, weight]) => ({ target: parseRuleAtom(key), weight }))
+      ));
+    }
+
+    return rules;
+  }
+}
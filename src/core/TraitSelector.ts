@@ -1,25 +1,68 @@
 import { GeneratorError, ErrorType } from '../types/errors';
-import { Trait, TraitCombination } from '../types/traits';
-import { GeneratorConfig } from '../types/config';
+import { Trait, TraitCombination, CapacityReport } from '../types/traits';
+import { GeneratorConfig, OneOfOneToken } from '../types/config';
+import { Attribute } from '../types/metadata';
 import { LayerProcessor } from './LayerProcessor';
 import { RarityCalculator } from './RarityCalculator';
+import { UniquenessIndex } from './UniquenessIndex';
+import { RuleEngine, RuleFilterResult, matchesAtom, parseRuleAtom } from './RuleEngine';
+import { QuotaProfile, allocateQuotaProfiles } from './QuotaPlanner';
+import { RandomSource, createRandom } from '../utils/random';
+import { VALIDATION_RULES } from '../constants/validation';
 import logger from '../utils/logger';
 
-// NOTE: This implementation assumes LayerProcessor has a method:
-// getTraitByKeys(type: string, name: string): Trait | undefined
-// to resolve dependent and forced traits into full Trait objects.
+// Remaining supply of every quota'd trait over the current run
+interface QuotaPlan {
+  remaining: Map<string, number>;
+  layers: Map<string, string[]>;
+  tokensLeft: number;
+  // Unused unique combinations per quota profile, and how many remaining tokens take each
+  // profile; the allocation is null when the planner couldn't decide within its step budget
+  profiles: Map<string, QuotaProfile>;
+  allocation: Map<string, number> | null;
+  // Allocation re-planned for the token just accepted, applied when it is consumed
+  replanned: { profile: string; allocation: Map<string, number> | null } | null;
+  rejected: Set<string>;
+}
+
+// Bookkeeping for one search, used to explain why no combination could be found
+interface SearchTrace {
+  completeAssignments: number;
+  quotaRejections: number;
+  deadEnds: Map<string, Map<string, number>>;
+}
+
+// Either a full selection, or the selection positions that have to change to get out of a dead end
+type SearchResult = { traits: Trait[] } | { conflict: Set<number> };
+
+const MAX_EXPLAINED_LAYERS = 3;
+const MAX_EXPLAINED_REASONS = 5;
 
 export class TraitSelector {
-  private usedCombinations: Set<string> = new Set();
+  private uniqueness: UniquenessIndex;
   private rarityTracker: RarityCalculator;
   private config: GeneratorConfig;
   private layerProcessor: LayerProcessor;
   private traitCache: Map<string, Trait[]> = new Map();
+  private random: RandomSource = Math.random;
+  private quotaPlan: QuotaPlan | null = null;
+  // Tokens already in the uniqueness pool, so quota planning knows which combinations are used
+  private pool: Trait[][] = [];
+  // Quota-flattened candidate -> the trait it stands for
+  private quotaSources: WeakMap<Trait, Trait> = new WeakMap();
+  private ruleEngine: RuleEngine | null = null;
 
   constructor(config: GeneratorConfig, layerProcessor: LayerProcessor) {
     this.config = config;
     this.layerProcessor = layerProcessor;
     this.rarityTracker = new RarityCalculator();
+    this.uniqueness = new UniquenessIndex(config.uniqueness);
+  }
+
+  // Switches all random draws to a seeded source so the same seed reproduces the same collection
+  useSeed(seed: string): void {
+    this.random = createRandom(seed);
+    logger.info('Trait selection seeded', { seed });
   }
 
   // Helper to normalize trait names (removes #XX suffix and generates keys)
@@ -34,374 +77,698 @@ export class TraitSelector {
     };
   }
   
-  // Helper to safely extract the name part of a config key (e.g., 'Type:Name' -> 'Name' or 'Name' -> 'Name')
-  private getTraitNameFromConfigKey(key: string): string {
-      const parts = key.split(':');
-      // If there is a colon, return the part after it; otherwise, return the whole key.
-      return parts.length > 1 ? (parts[1] || '').trim() : (parts[0] || '').trim();
+  // Helper to check a trait against a config key ('Type:Name' matches exactly, 'Name' matches any type, '#tag' by tag)
+  private matchesConfigKey(trait: Trait, key: string): boolean {
+    return matchesAtom(parseRuleAtom(key), trait);
   }
 
-  // --- Main Generator Loop (Fixed Flow) ---
-  async generateCombinations(count: number): Promise<TraitCombination[]> {
-    const combinations: TraitCombination[] = [];
-    let attempts = 0;
-    let duplicates = 0;
-
-    // Generate combinations in parallel batches for massive speedup
-    const batchSize = Math.min(50, count);
-    const maxAttempts = count * 10;
-
-    while (combinations.length < count && attempts < maxAttempts) {
-      const remaining = count - combinations.length;
-      const currentBatchSize = Math.min(batchSize, remaining);
-      
-      // Generate batch in parallel
-      const batchPromises = [];
-      for (let i = 0; i < currentBatchSize; i++) {
-        batchPromises.push(this.generateSingleCombination(combinations.length + i + 1));
-      }
-      
-      const batchResults = await Promise.allSettled(batchPromises);
-      
-      // Process results
-      for (const result of batchResults) {
-        attempts++;
-        
-        if (result.status === 'fulfilled') {
-          const combination = result.value;
-          const key = this.getCombinationKey(combination);
-          
-          if (!this.usedCombinations.has(key)) {
-            this.usedCombinations.add(key);
-            combinations.push(combination);
-            // Skip progress tracking for massive speedup - it's just file I/O
-          } else {
-            duplicates++;
-          }
+  /**
+   * Adds tokens of an earlier phase to the uniqueness pool so new tokens keep their distance
+   * from them. Attribute values are matched back to the current layers' traits; a value no
+   * current trait has (or a layer the token didn't have) can't equal any new token's trait.
+   * Returns how many tokens matched a trait on every layer.
+   */
+  async addExistingTokens(tokens: Attribute[][]): Promise<number> {
+    let matched = 0;
+
+    for (const attributes of tokens) {
+      const traits: Trait[] = [];
+      let complete = true;
+      for (const traitType of this.config.trait_processing_order) {
+        const layerTraits = await this.getLayerTraits(traitType);
+        const attribute = attributes.find(attr => attr.trait_type === traitType);
+        const trait = attribute
+          ? layerTraits.find(candidate => this.getAttributeValue(candidate) === attribute.value)
+          : layerTraits.find(candidate => candidate.empty);
+
+        if (trait) {
+          traits.push(trait);
         } else {
-          // Check for retryable errors
-          const error = result.reason;
-          if (error instanceof GeneratorError && error.recoverable) {
-            // Soft failure, continue
-            continue;
+          complete = false;
+          traits.push({ type: traitType, name: attribute ? `(${attribute.value})` : '', weight: 0, path: '', frames: [] });
+        }
+      }
+      this.uniqueness.add(traits);
+      if (complete) {
+        this.pool.push(traits);
+        matched++;
+      }
+    }
+
+    logger.info('Existing tokens added to the uniqueness pool', { tokens: tokens.length, matched });
+    return matched;
+  }
+
+  // --- Main Generator Loop ---
+  // Quotas are planned against `count`; previews sample the layers and skip them
+  async generateCombinations(count: number, options: { ignoreQuotas?: boolean } = {}): Promise<TraitCombination[]> {
+    const combinations: TraitCombination[] = [];
+    this.quotaPlan = null;
+    this.quotaPlan = options.ignoreQuotas ? null : await this.planQuotas(count);
+
+    // Combinations are solved one after another so every random draw happens in a
+    // fixed order and a seeded run is fully reproducible
+    while (combinations.length < count) {
+      try {
+        const combination = await this.generateSingleCombination(combinations.length + 1);
+        this.uniqueness.add(combination.traits);
+        this.pool.push(combination.traits);
+        this.consumeQuotas(combination.traits);
+        combinations.push(combination);
+      } catch (error) {
+        // Every valid combination is already in use: nothing more can be generated
+        if (error instanceof GeneratorError && error.type === ErrorType.DUPLICATE_ERROR) {
+          // A short run can't meet the quotas, which are planned for every token
+          if (this.quotaPlan) {
+            throw new GeneratorError(
+              ErrorType.CONFIG_ERROR,
+              `Only ${combinations.length} of ${count} unique combinations could be generated, so trait_quotas can't be met`,
+              { ...error.context, generated: combinations.length, count }
+            );
           }
-          logger.error(`Fatal error during generation attempt ${attempts}:`, error);
+          logger.error(`Could only generate ${combinations.length} unique combinations out of ${count} requested.`, error.context);
+          break;
         }
+        throw error;
       }
     }
 
-    if (combinations.length < count) {
-      logger.error(`Could only generate ${combinations.length} unique combinations out of ${count} requested after ${attempts} attempts.`);
+    const unmet = [...this.quotaPlan?.remaining || []].filter(([, remaining]) => remaining !== 0);
+    if (unmet.length > 0) {
+      throw new GeneratorError(
+        ErrorType.CONFIG_ERROR,
+        `trait_quotas were not met: ${unmet.map(([key, remaining]) => `"${key}" is ${remaining} short`).join(', ')}`,
+        { unmet: Object.fromEntries(unmet) }
+      );
     }
 
-    // Complete progress tracking
     logger.info(`Trait combination generation completed`, {
-      generated: combinations.length,
-      attempts,
-      duplicates
+      generated: combinations.length
     });
     return combinations;
   }
 
   private async generateSingleCombination(id: number): Promise<TraitCombination> {
-    let selectedTraits: Trait[] = [];
-     // Use the correct config property name
-     const layerOrder = this.config.trait_processing_order;
+    const trace: SearchTrace = { completeAssignments: 0, quotaRejections: 0, deadEnds: new Map() };
+    const result = await this.solve(this.config.trait_processing_order, 0, [], trace);
 
-    for (const traitType of layerOrder) {
-        
-      // 1. Get all base traits for the layer (with caching)
-      let traits = this.traitCache.get(traitType);
-      if (!traits) {
-        traits = await this.layerProcessor.getAvailableTraits(traitType);
-        this.traitCache.set(traitType, traits);
-      }
-
-      // 2. Apply Forced Pairings (MUST happen before all other rules)
-      const forcedTrait = await this.applyForcedPairings(traitType, selectedTraits);
-      if (forcedTrait) {
-          selectedTraits.push(forcedTrait);
-          continue; // Skip the rest of the checks and selection for this layer
-      }
-
-      // 3. Apply Dependent Traits (Adds traits for potentially other layers, but may fulfill current)
-      const dependentTraits = await this.applyDependentTraits(selectedTraits);
-      if (dependentTraits.length > 0) {
-          // Add all resolved dependent traits to the selected list
-          selectedTraits.push(...dependentTraits); 
-
-          // Check if the current layer (traitType) was fulfilled by a dependent trait
-          if (dependentTraits.some(t => t.type === traitType)) {
-              continue; // Layer fulfilled, skip selection
-          }
+    if ('traits' in result) {
+      const traits = result.traits.map(trait => this.layerProcessor.resolveVariant(trait, result.traits));
+      return this.createTraitCombination(id, traits);
+    }
+
+    if (trace.quotaRejections > 0) {
+      throw new GeneratorError(
+        ErrorType.CONFIG_ERROR,
+        `trait_quotas can no longer be met by the ${this.quotaPlan?.tokensLeft} remaining tokens`,
+        { remaining: Object.fromEntries(this.quotaPlan?.remaining || []), used: this.uniqueness.size }
+      );
+    }
+
+    if (trace.completeAssignments > 0) {
+      throw new GeneratorError(
+        ErrorType.DUPLICATE_ERROR,
+        'All valid trait combinations have already been used',
+        { used: this.uniqueness.size }
+      );
+    }
+
+    throw new GeneratorError(
+      ErrorType.CONFIG_ERROR,
+      `No valid trait combination exists for the configured rules:\n${this.explainDeadEnds(trace)}`,
+      { deadEnds: this.serializeDeadEnds(trace) }
+    );
+  }
+
+  // --- CONSTRAINT SOLVER ---
+
+  /**
+   * Depth-first search over trait_processing_order with conflict-directed backjumping.
+   * Candidates at each layer are tried in weighted random order, so the first solution
+   * found follows the configured weights, but a valid unused combination is always found
+   * when one exists. When a layer runs dry, the search jumps straight back to the most
+   * recent layer whose choice caused it instead of retrying unrelated layers.
+   */
+  private async solve(layerOrder: string[], depth: number, selected: Trait[], trace: SearchTrace): Promise<SearchResult> {
+    if (depth === layerOrder.length) {
+      trace.completeAssignments++;
+      if (this.uniqueness.isTooClose(selected)) {
+        // Too close to an existing token: any layer that counts toward uniqueness can resolve it
+        return { conflict: new Set(this.uniqueness.countedPositions(selected)) };
+      }
+      if (!this.fitsQuotaPlan(selected)) {
+        // Only the quota'd layers decide which quota profile the token takes
+        trace.quotaRejections++;
+        return { conflict: new Set(selected.flatMap((trait, position) => (this.quotaPlan?.layers.has(trait.type) ? [position] : []))) };
       }
+      return { traits: [...selected] };
+    }
 
-      // 4. Apply Incompatibility Rules
-      traits = this.applyIncompatibilityRules(traits, selectedTraits);
+    const traitType = layerOrder[depth]!;
+    const candidates = await this.getLayerCandidates(traitType, selected);
+    const conflict = new Set(candidates.culprits);
 
-      // 5. Apply Exclusive Group Rules
-      traits = this.applyExclusiveGroupRules(traitType, traits, selectedTraits);
+    if (candidates.traits.length === 0) {
+      this.recordDeadEnd(trace, traitType, candidates.reasons);
+      return { conflict };
+    }
 
-      // 6. Apply Conditional Rarity (Modifies weights based on selected traits)
-      traits = this.applyConditionalRarity(traits, selectedTraits);
+    let remaining = candidates.traits;
+    while (remaining.length > 0) {
+      const pick = this.weightedRandomSelect(remaining);
+      remaining = remaining.filter(trait => trait !== pick);
 
-       // Handle cases where all traits were filtered out (likely due to too many rules)
-       if (traits.length === 0) {
-           throw new GeneratorError(
-             ErrorType.PROCESSING_ERROR, 
-             `All traits filtered out for layer ${traitType}. Retrying combination.`,
-             { recoverable: true }
-           );
-       }
+      // Quota'd candidates are flattened copies; the token keeps the trait with its categories
+      selected.push(this.quotaSources.get(pick) || pick);
+      const result = await this.solve(layerOrder, depth + 1, selected, trace);
+      selected.pop();
 
-      // 7. Perform Weighted Random Selection
-      const selectedTrait = this.weightedRandomSelect(traits);
-      selectedTraits.push(selectedTrait);
+      if ('traits' in result) {
+        return result;
+      }
+      // This layer's choice played no part in the failure, so its other candidates can't help either
+      if (!result.conflict.has(depth)) {
+        return result;
+      }
+      result.conflict.forEach(position => {
+        if (position !== depth) conflict.add(position);
+      });
     }
 
-    return this.createTraitCombination(id, selectedTraits);
+    return { conflict };
   }
 
-  // --- RULE IMPLEMENTATIONS ---
+  // --- CAPACITY ANALYSIS ---
 
   /**
-   * 1. Incompatibility Rules: Filters out traits that conflict with any already selected trait.
-   * This implements a clean, bidirectional check.
+   * Counts the unique combinations that satisfy every rule, walking trait_processing_order
+   * with the same candidate filtering the solver uses. Traits that match the same rule keys
+   * behave identically, so each group of them is counted as one branch times its size, and
+   * subtrees are memoized on the groups selected so far. Layers ignored by the uniqueness
+   * settings count each group once. Quotas are not taken into account.
    */
-  private applyIncompatibilityRules(availableTraits: Trait[], selectedTraits: Trait[]): Trait[] {
-    if (!this.config.incompatible_traits) {
-        return availableTraits;
-    }
-
-    return availableTraits.filter(trait => {
-        const traitKeys = this.getTraitKeys(trait);
-        if (!traitKeys) return true; // Skip if no valid keys
-
-        const isExcluded = selectedTraits.some(selected => {
-            const selectedKeys = this.getTraitKeys(selected);
-            if (!selectedKeys) return false; // Skip if no valid keys
-
-            // A. Get rules for the SELECTED trait
-            const selectedRules = this.config.incompatible_traits![selectedKeys.withType] ||
-                                  this.config.incompatible_traits![selectedKeys.nameOnly];
-            
-            // B. Get rules for the AVAILABLE trait (trait currently being filtered)
-            const availableRules = this.config.incompatible_traits![traitKeys.withType] ||
-                                   this.config.incompatible_traits![traitKeys.nameOnly];
-
-            // Check 1 (SELECTED -> AVAILABLE): Does the SELECTED trait list the AVAILABLE trait?
-            const check1 = selectedRules && 
-                           (selectedRules.includes(traitKeys.withType) || 
-                            selectedRules.includes(traitKeys.nameOnly));
-            
-            // Check 2 (AVAILABLE -> SELECTED): Does the AVAILABLE trait list the SELECTED trait?
-            const check2 = availableRules && 
-                           (availableRules.includes(selectedKeys.withType) || 
-                            availableRules.includes(selectedKeys.nameOnly));
-
-            // If either direction shows incompatibility, exclude the trait
-            return check1 || check2;
-        });
+  async analyzeCapacity(): Promise<CapacityReport> {
+    const layerOrder = this.config.trait_processing_order;
+    const layers: CapacityReport['layers'] = [];
+    for (const traitType of layerOrder) {
+      layers.push({ traitType, traits: (await this.getLayerTraits(traitType)).length });
+    }
 
-        return !isExcluded;
-    });
+    const ruleEngine = await this.getRuleEngine();
+    const capacity = (await this.countCombinations(() => undefined)).get('') ?? 0;
+    const unconstrained = layers.reduce((product, layer) => product * layer.traits, 1);
+    // A minimum distance, or ignored layers whose traits rules tell apart, make some counted combinations collide
+    let exact = (this.config.uniqueness?.min_distance ?? 1) <= 1;
+    for (const traitType of layerOrder) {
+      const traits = (await this.getLayerTraits(traitType)).filter(trait => !this.uniqueness.counts(trait));
+      if (new Set(traits.map(trait => ruleEngine.getSignature(trait))).size > 1) {
+        exact = false;
+      }
+    }
+    logger.info('Capacity analysis completed', { capacity, unconstrained, exact });
+    return { capacity, unconstrained, layers, exact };
   }
 
   /**
-   * 2. Dependent Traits: Checks if a selected trait triggers a dependency that must be added.
-   * Fixes the issue by resolving the full Trait object.
+   * The counting walk behind analyzeCapacity. Combinations are counted per profile: the
+   * classes `classOf` gives their traits, in trait_processing_order, joined with "|". Traits
+   * of a group must share their class, so the class is part of the group key.
    */
-  private async applyDependentTraits(selectedTraits: Trait[]): Promise<Trait[]> {
-    const dependentTraits: Trait[] = [];
+  private async countCombinations(classOf: (trait: Trait) => string | undefined): Promise<Map<string, number>> {
+    const layerOrder = this.config.trait_processing_order;
+    const ruleEngine = await this.getRuleEngine();
+    const memo = new Map<string, Map<string, number>>();
+
+    const count = async (depth: number, selected: Trait[]): Promise<Map<string, number>> => {
+      if (depth === layerOrder.length) {
+        return new Map([['', 1]]);
+      }
 
-    if (!this.config.dependent_traits) {
-        return dependentTraits;
-    }
+      const memoKey = `${depth}|${selected.map(t => ruleEngine.getSignature(t)).join('|')}`;
+      const cached = memo.get(memoKey);
+      if (cached !== undefined) {
+        return cached;
+      }
 
-    for (const [triggerKey, dependentKey] of Object.entries(this.config.dependent_traits)) {
-        
-        // 1. Check if the trigger trait is currently selected
-        const triggerIsSelected = selectedTraits.some(t => {
-            const keys = this.getTraitKeys(t);
-            if (!keys) return false;
-            // Used getTraitNameFromConfigKey for safe string splitting
-            return keys.withType === triggerKey || keys.nameOnly === this.getTraitNameFromConfigKey(triggerKey);
-        });
+      const { traits } = await this.getLayerCandidates(layerOrder[depth]!, selected);
+      const groups = new Map<string, Trait[]>();
+      for (const trait of traits) {
+        const key = `${ruleEngine.getSignature(trait)}|${classOf(trait) ?? ''}`;
+        groups.set(key, [...(groups.get(key) || []), trait]);
+      }
 
-        if (triggerIsSelected) {
-            const dependentParts = dependentKey.split(':');
-            const dependentType = dependentParts[0];
-            const dependentName = dependentParts.length > 1 ? dependentParts[1] : dependentParts[0];
-
-             // 2. Check if the dependent trait is already selected (to prevent duplicates)
-             const isAlreadySelected = selectedTraits.some(t => {
-                 const keys = this.getTraitKeys(t);
-                 if (!keys) return false;
-                 // Check against Type:Name and Name only
-                 return keys.withType === dependentKey || keys.nameOnly === dependentName;
-             });
-            
-            // 3. Only proceed if the dependent trait is not yet selected
-            if (!isAlreadySelected) {
-                 // Get the actual, resolved Trait object from the layer processor
-                 const dependentTraits = await this.layerProcessor.getAvailableTraits(dependentType || '');
-                 const dependentTrait = dependentTraits.find(t => 
-                   t.name.split('#')[0] === dependentName
-                 );
-                 
-                 if (dependentTrait) {
-                   dependentTraits.push(dependentTrait);
-                   logger.debug(`Dependent trait added: ${dependentType}:${dependentName}`);
-                 }
-            }
+      const totals = new Map<string, number>();
+      for (const group of groups.values()) {
+        const branches = this.uniqueness.counts(group[0]!) ? group.length : 1;
+        const name = classOf(group[0]!);
+        selected.push(group[0]!);
+        for (const [rest, total] of await count(depth + 1, selected)) {
+          const profile = name === undefined ? rest : rest ? `${name}|${rest}` : name;
+          totals.set(profile, (totals.get(profile) || 0) + branches * total);
         }
+        selected.pop();
+      }
+
+      memo.set(memoKey, totals);
+      return totals;
+    };
+
+    // Quotas describe a particular run, not the combination space
+    const quotaPlan = this.quotaPlan;
+    this.quotaPlan = null;
+    try {
+      return await count(0, []);
+    } finally {
+      this.quotaPlan = quotaPlan;
     }
-    
-    return dependentTraits;
+  }
+
+  private async getLayerTraits(traitType: string): Promise<Trait[]> {
+    let traits = this.traitCache.get(traitType);
+    if (!traits) {
+      traits = (await this.layerProcessor.getAvailableTraits(traitType))
+        .map(trait => this.applyTags(trait))
+        .flatMap(trait => this.applyTier(trait));
+      const emptySlot = this.createEmptySlot(traitType);
+      if (emptySlot) {
+        traits = [...traits, emptySlot];
+      }
+      this.traitCache.set(traitType, traits);
+    }
+    return traits;
   }
 
   /**
-   * 3. Exclusive Group Rules: Filters out traits that belong to an exclusive group 
-   * if another trait from that same group has already been selected.
+   * A trait's tags are those from its trait.json (and its categories' trait.json), the names
+   * of the category folders above it, and every trait_tags entry whose keys match it.
    */
-   private applyExclusiveGroupRules(traitType: string, availableTraits: Trait[], selectedTraits: Trait[]): Trait[] {
-     if (!this.config.exclusive_groups) {
-       return availableTraits;
-     }
-
-     // Find the group that contains this trait type
-     const group = Object.entries(this.config.exclusive_groups).find(([_, traits]) => 
-       traits.includes(traitType)
-     )?.[1];
-     
-     if (!group) {
-       return availableTraits;
-     }
-
-    // Check if ANY selected trait belongs to the exclusive group
-    const selectedFromGroup = selectedTraits.some(selected => {
-        const keys = this.getTraitKeys(selected);
-        if (!keys) return false;
-        return group.includes(keys.nameOnly) || group.includes(keys.withType);
-    });
+  private applyTags(trait: Trait): Trait {
+    const configTags = Object.entries(this.config.trait_tags || {})
+      .filter(([, keys]) => keys.some(key => !key.trim().startsWith('#') && this.matchesConfigKey(trait, key)))
+      .map(([tag]) => tag);
+    const tags = [...new Set([
+      ...(trait.tags || []),
+      ...(trait.lineage || []).map(category => category.name),
+      ...configTags
+    ])];
+    return tags.length > 0 ? { ...trait, tags } : trait;
+  }
 
-    if (selectedFromGroup) {
-        // If an exclusive trait is already selected, filter out all other traits 
-        // that are also part of that exclusive group from the available list.
-        return availableTraits.filter(trait => {
-            const keys = this.getTraitKeys(trait);
-            if (!keys) return true;
-            return !group.includes(keys.nameOnly) && !group.includes(keys.withType);
-        });
+  /**
+   * On a tiered layer the tier becomes the top selection level, so the tier is rolled by its
+   * weight before the trait within it. rarity_tiers entries take precedence over trait.json.
+   * Traits without a known tier, or in a tier weighted 0, are left out (lint-rules reports the
+   * former); the empty slot of an optional layer is added afterwards and competes with the tiers.
+   */
+  private applyTier(trait: Trait): Trait[] {
+    const tiers = this.config.rarity_tiers?.[trait.type];
+    if (!tiers) {
+      return [trait];
+    }
+
+    const tier = Object.entries(tiers.traits || {})
+      .find(([, keys]) => keys.some(key => this.matchesConfigKey(trait, key)))?.[0] ?? trait.tier;
+    const weight = tier !== undefined ? tiers.weights[tier] : undefined;
+    if (tier === undefined || weight === undefined) {
+      logger.warn('Trait has no rarity tier and is never selected', { trait: this.describeTrait(trait), tier });
+      return [];
+    }
+    if (weight === 0) {
+      return [];
+    }
+    return [{ ...trait, tier, lineage: [{ name: tier, weight, tier: true }, ...(trait.lineage || [])] }];
+  }
+
+  // Attribute value -> tier for every tiered layer, so calculate-rarity can break tokens down by tier
+  async getTraitTiers(): Promise<Record<string, Record<string, string>>> {
+    const tiers: Record<string, Record<string, string>> = {};
+    for (const traitType of Object.keys(this.config.rarity_tiers || {})) {
+      for (const trait of await this.getLayerTraits(traitType)) {
+        if (trait.tier === undefined) continue;
+        (tiers[traitType] = tiers[traitType] || {})[this.getAttributeValue(trait)] = trait.tier;
+      }
     }
+    return tiers;
+  }
 
-    return availableTraits;
+  // Which traits every tag expands to, for the list-tags command and debug logging
+  async getTagExpansion(): Promise<Record<string, string[]>> {
+    const expansion: Record<string, string[]> = {};
+    for (const traitType of this.config.trait_processing_order) {
+      for (const trait of await this.getLayerTraits(traitType)) {
+        for (const tag of trait.tags || []) {
+          (expansion[tag] = expansion[tag] || []).push(this.describeTrait(trait));
+        }
+      }
+    }
+    return expansion;
   }
 
+  // Optional layers get a frameless "none" trait that competes with the layer's top-level traits
+  private createEmptySlot(traitType: string): Trait | null {
+    const optional = this.config.optional_layers?.[traitType];
+    if (!optional) {
+      return null;
+    }
+    return {
+      type: traitType,
+      name: optional.none_label || 'None',
+      weight: optional.none_weight,
+      path: '',
+      frames: [],
+      lineage: [],
+      empty: true
+    };
+  }
+
+  // Compiled on first use, once the layers it resolves rule keys against are loaded
+  private async getRuleEngine(): Promise<RuleEngine> {
+    if (!this.ruleEngine) {
+      const layers = new Map<string, Trait[]>();
+      for (const traitType of this.config.trait_processing_order) {
+        layers.set(traitType, await this.getLayerTraits(traitType));
+      }
+      this.ruleEngine = new RuleEngine(this.config, layers);
+      logger.debug('Trait tags expanded', { tags: await this.getTagExpansion() });
+    }
+    return this.ruleEngine;
+  }
+
+  private async getLayerCandidates(traitType: string, selectedTraits: Trait[]): Promise<RuleFilterResult> {
+    const traits = await this.getLayerTraits(traitType);
+
+    if (traits.length === 0) {
+      return { traits, culprits: new Set(), reasons: [`layer "${traitType}" has no traits`] };
+    }
+
+    // Rules (including the legacy rule maps) filter and reweight, then quotas pin the exact supply
+    const candidates = (await this.getRuleEngine()).filterCandidates(traitType, traits, selectedTraits);
+    candidates.traits = this.applyTraitQuotas(traitType, candidates.traits, candidates.reasons);
+    return candidates;
+  }
+
+  private describeTrait(trait: Trait): string {
+    return this.getTraitKeys(trait)?.withType || trait.type;
+  }
+
+  private recordDeadEnd(trace: SearchTrace, traitType: string, reasons: string[]): void {
+    let layerReasons = trace.deadEnds.get(traitType);
+    if (!layerReasons) {
+      layerReasons = new Map();
+      trace.deadEnds.set(traitType, layerReasons);
+    }
+    for (const reason of new Set(reasons)) {
+      layerReasons.set(reason, (layerReasons.get(reason) || 0) + 1);
+    }
+  }
+
+  // Summarizes the layers that most often ran out of candidates, with the rules responsible
+  private explainDeadEnds(trace: SearchTrace): string {
+    const total = (reasons: Map<string, number>) => [...reasons.values()].reduce((sum, n) => sum + n, 0);
+    const layers = [...trace.deadEnds.entries()]
+      .sort((a, b) => total(b[1]) - total(a[1]))
+      .slice(0, MAX_EXPLAINED_LAYERS);
+
+    return layers.map(([traitType, reasons]) => {
+      const topReasons = [...reasons.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_EXPLAINED_REASONS)
+        .map(([reason]) => `    - ${reason}`);
+      return [`  Layer "${traitType}" has no selectable trait:`, ...topReasons].join('\n');
+    }).join('\n');
+  }
+
+  private serializeDeadEnds(trace: SearchTrace): Record<string, Record<string, number>> {
+    const result: Record<string, Record<string, number>> = {};
+    for (const [traitType, reasons] of trace.deadEnds) {
+      result[traitType] = Object.fromEntries(reasons);
+    }
+    return result;
+  }
+
+  // --- TRAIT QUOTAS ---
+
   /**
-   * 4. Conditional Rarity: Adjusts the weight of available traits based on 
-   * what has already been selected.
+   * Quota'd traits are weighted by their remaining supply and free traits
+   * share whatever tokens are left over, so each quota'd trait has a remaining/tokensLeft
+   * chance per token. Once the remaining quotas of a layer need every remaining token,
+   * free traits are removed, which makes the quotas land exactly.
    */
-  private applyConditionalRarity(availableTraits: Trait[], selectedTraits: Trait[]): Trait[] {
-    if (!this.config.conditional_rarity) {
-        return availableTraits;
+  private applyTraitQuotas(traitType: string, availableTraits: Trait[], reasons: string[]): Trait[] {
+    const plan = this.quotaPlan;
+    const layerKeys = plan?.layers.get(traitType);
+    if (!plan || !layerKeys) {
+      return availableTraits;
     }
 
-    // Create a deep clone to safely modify weights for this selection pass
-    const adjustedTraits: Trait[] = JSON.parse(JSON.stringify(availableTraits));
-    
-    // Iterate over all conditional rarity rules
-    for (const [conditionKey, adjustments] of Object.entries(this.config.conditional_rarity)) {
-         // 1. Check if the condition (trigger trait) is selected
-         const conditionIsMet = selectedTraits.some(selected => {
-             const keys = this.getTraitKeys(selected);
-             if (!keys) return false;
-             // Used getTraitNameFromConfigKey for safe string splitting
-             return keys.withType === conditionKey || keys.nameOnly === this.getTraitNameFromConfigKey(conditionKey);
-         });
-
-        if (conditionIsMet) {
-            // 2. Apply all adjustments defined under this condition
-            for (const [targetKey, newWeight] of Object.entries(adjustments)) {
-                const [targetType, targetName] = targetKey.split(':');
-
-                // Find the target trait in the adjusted list
-                const targetTrait = adjustedTraits.find(trait => {
-                    const keys = this.getTraitKeys(trait);
-                    if (!keys) return false;
-                    // Match either by full key or name only AND ensure type matches
-                    return keys.withType === targetKey || (keys.nameOnly === targetName && trait.type === targetType);
-                });
-
-                if (targetTrait) {
-                    // Adjust the weight (setting to 0 effectively excludes it)
-                    targetTrait.weight = newWeight;
-                    logger.debug(`Conditional Rarity: ${targetKey} weight set to ${newWeight} due to selection of ${conditionKey}`);
-                }
+    const reserved = layerKeys.reduce((sum, key) => sum + (plan.remaining.get(key) || 0), 0);
+    const freeSlots = plan.tokensLeft - reserved;
+    if (freeSlots < 0) {
+      reasons.push(`trait_quotas: ${reserved} quota'd "${traitType}" traits remain but only ${plan.tokensLeft} tokens are left`);
+      return [];
+    }
+
+    // These weights are final probabilities, so the category levels are flattened away
+    const freeTraits = availableTraits.filter(trait => !plan.remaining.has(this.describeTrait(trait)));
+    const freeChances = this.getSelectionChances(freeTraits);
+
+    return availableTraits.flatMap(trait => {
+      const remaining = plan.remaining.get(this.describeTrait(trait));
+      if (remaining !== undefined) {
+        if (remaining > 0) return [this.flattenForQuota(trait, remaining)];
+        reasons.push(`trait_quotas: quota of "${this.describeTrait(trait)}" is filled`);
+        return [];
+      }
+      if (freeSlots > 0) return [this.flattenForQuota(trait, freeSlots * (freeChances.get(trait) || 0))];
+      reasons.push(`trait_quotas: remaining "${traitType}" tokens are reserved for quota'd traits`);
+      return [];
+    });
+  }
+
+  private flattenForQuota(trait: Trait, weight: number): Trait {
+    const flattened = { ...trait, weight, lineage: [] };
+    this.quotaSources.set(flattened, trait);
+    return flattened;
+  }
+
+  // Resolves trait_quotas and fails up front when they can't all be met within `count` tokens
+  private async planQuotas(count: number): Promise<QuotaPlan | null> {
+    const quotas = this.config.trait_quotas;
+    if (!quotas || Object.keys(quotas).length === 0) {
+      return null;
+    }
+
+    const problems: string[] = [];
+    const remaining = new Map<string, number>();
+    const layers = new Map<string, string[]>();
+    const layerTraits = new Map<string, Trait[]>();
+    for (const traitType of this.config.trait_processing_order) {
+      layerTraits.set(traitType, await this.getLayerTraits(traitType));
+    }
+
+    for (const [key, quota] of Object.entries(quotas)) {
+      const matches = [...layerTraits.values()].flat().filter(trait => this.matchesConfigKey(trait, key));
+      if (matches.length !== 1) {
+        problems.push(matches.length === 0
+          ? `"${key}" does not match any trait`
+          : `"${key}" is ambiguous (${matches.map(t => this.describeTrait(t)).join(', ')})`);
+        continue;
+      }
+      const trait = matches[0]!;
+      const traitKey = this.describeTrait(trait);
+      if (quota > count) {
+        problems.push(`"${traitKey}" needs ${quota} tokens but only ${count} are generated`);
+      }
+      remaining.set(traitKey, quota);
+      layers.set(trait.type, [...(layers.get(trait.type) || []), traitKey]);
+    }
+
+    const quotaOf = (trait: Trait) => remaining.get(this.describeTrait(trait));
+
+    // Every token takes exactly one trait per layer
+    for (const [traitType, keys] of layers) {
+      const reserved = keys.reduce((sum, key) => sum + (remaining.get(key) || 0), 0);
+      const allQuoted = (layerTraits.get(traitType) || []).every(trait => quotaOf(trait) !== undefined);
+      if (reserved > count) {
+        problems.push(`layer "${traitType}" quotas add up to ${reserved}, more than the ${count} tokens generated`);
+      } else if (allQuoted && reserved < count) {
+        problems.push(`every "${traitType}" trait has a quota but they only add up to ${reserved} of ${count} tokens`);
+      }
+    }
+
+    // Incompatible quota'd traits can never share a token
+    for (const [triggerKey, targets] of Object.entries(this.config.incompatible_traits || {})) {
+      for (const [trigger, triggerQuota] of this.quotaEntries(triggerKey, layerTraits, quotaOf)) {
+        for (const targetKey of targets) {
+          for (const [target, targetQuota] of this.quotaEntries(targetKey, layerTraits, quotaOf)) {
+            if (trigger.type !== target.type && triggerQuota + targetQuota > count) {
+              problems.push(`incompatible "${this.describeTrait(trigger)}" (${triggerQuota}) and "${this.describeTrait(target)}" (${targetQuota}) need more than ${count} tokens`);
             }
+          }
         }
+      }
     }
-    
-    return adjustedTraits;
+
+    // A trigger can't appear more often than the single quota'd trait it forces
+    const pairings: Array<[string, string[]]> = [
+      ...Object.entries(this.config.forced_pairings || {}),
+      ...Object.entries(this.config.dependent_traits || {}).map(([trigger, dependent]): [string, string[]] => [trigger, [dependent]])
+    ];
+    for (const [triggerKey, targets] of pairings) {
+      for (const [trigger, triggerQuota] of this.quotaEntries(triggerKey, layerTraits, quotaOf)) {
+        for (const targetKey of targets) {
+          const forced = [...layerTraits.values()].flat().filter(trait => this.matchesConfigKey(trait, targetKey));
+          const forcedQuota = forced.length === 1 ? quotaOf(forced[0]!) : undefined;
+          if (forcedQuota !== undefined && triggerQuota > forcedQuota) {
+            problems.push(`"${this.describeTrait(trigger)}" (${triggerQuota}) forces "${this.describeTrait(forced[0]!)}" which only has a quota of ${forcedQuota}`);
+          }
+        }
+      }
+    }
+
+    const plan: QuotaPlan = { remaining, layers, tokensLeft: count, profiles: new Map(), allocation: null, replanned: null, rejected: new Set() };
+    if (problems.length === 0) {
+      await this.allocateQuotas(plan, problems);
+    }
+
+    if (problems.length > 0) {
+      throw new GeneratorError(
+        ErrorType.CONFIG_ERROR,
+        `Trait quotas cannot be satisfied:\n${problems.map(p => `  - ${p}`).join('\n')}`,
+        { problems, count }
+      );
+    }
+
+    logger.info('Trait quotas planned', { quotas: remaining.size, count, decided: plan.allocation !== null });
+    return plan;
   }
-  
-  // --- EXISTING/PLACEHOLDER METHODS (Included for completeness) ---
 
   /**
-   * 5. Forced Pairings: Checks if a selected trait forces the selection of a specific trait 
-   * for the CURRENT layer being processed.
+   * Counts the unused unique combinations of every quota profile and splits the run over
+   * them, which catches quotas the rules or uniqueness can't serve together even though
+   * each pair of them fits.
    */
-  private async applyForcedPairings(traitType: string, selectedTraits: Trait[]): Promise<Trait | null> {
-    if (!this.config.forced_pairings) {
-        return null;
-    }
-
-    for (const [triggerKey, forcedKey] of Object.entries(this.config.forced_pairings)) {
-        
-         // 1. Check if the trigger trait is currently selected
-         const triggerIsSelected = selectedTraits.some(selected => {
-             const keys = this.getTraitKeys(selected);
-             if (!keys) return false;
-             // Used getTraitNameFromConfigKey for safe string splitting
-             return keys.withType === triggerKey || keys.nameOnly === this.getTraitNameFromConfigKey(triggerKey);
-         });
-
-        if (triggerIsSelected) {
-            
-            // Explicitly split to avoid compiler confusion on destructuring array size
-            const forcedParts = String(forcedKey).split(':');
-            const forcedType = forcedParts[0];
-            const forcedName = forcedParts.length > 1 ? forcedParts[1] : forcedParts[0];
-
-            // 2. Check if the forced trait is for the CURRENT layer being processed
-            if (forcedType === traitType) {
-                
-                 // 3. Check if the forced trait is already selected (prevent duplicates)
-                 const isAlreadySelected = selectedTraits.some(t => {
-                     const keys = this.getTraitKeys(t);
-                     if (!keys) return false;
-                     return keys.withType === String(forcedKey) || keys.nameOnly === forcedName;
-                 });
-                
-                if (!isAlreadySelected) {
-                    // 4. Get the actual, resolved Trait object
-                    const availableTraits = await this.layerProcessor.getAvailableTraits(traitType);
-                    const forcedTrait = availableTraits.find(t => 
-                      t.name.split('#')[0] === forcedName
-                    );
-                    
-                    if (forcedTrait) {
-                      logger.debug(`Forced pairing applied for layer ${traitType}: ${forcedKey}`);
-                      return forcedTrait; // Return the trait for the current layer
-                    }
-                }
-            }
-        }
+  private async allocateQuotas(plan: QuotaPlan, problems: string[]): Promise<void> {
+    const counted = await this.countCombinations(trait => this.quotaClass(plan, trait));
+    for (const traits of this.pool) {
+      const profile = this.quotaProfile(plan, traits);
+      const capacity = counted.get(profile);
+      if (capacity !== undefined) counted.set(profile, Math.max(0, capacity - 1));
+    }
+    plan.profiles = new Map([...counted].map(([profile, capacity]) => [profile, { classes: profile.split('|'), capacity }]));
+
+    for (const [key, quota] of plan.remaining) {
+      const available = [...plan.profiles.values()]
+        .filter(profile => profile.classes.includes(key))
+        .reduce((sum, profile) => sum + profile.capacity, 0);
+      if (quota > available) {
+        problems.push(`"${key}" needs ${quota} tokens but only ${available} unused combinations allowed by the rules contain it`);
+      }
+    }
+    if (problems.length > 0) return;
+
+    const allocation = allocateQuotaProfiles(plan.profiles, this.quotaTargets(plan));
+    if (allocation === 'infeasible') {
+      problems.push(`the quotas can't all be met together within ${plan.tokensLeft} unique combinations allowed by the rules`);
+    } else if (allocation !== 'undecided') {
+      plan.allocation = allocation;
+    }
+  }
+
+  // Quota'd traits are their own class; the other traits of a quota'd layer share its free class
+  private quotaClass(plan: QuotaPlan, trait: Trait): string | undefined {
+    if (!plan.layers.has(trait.type)) return undefined;
+    const key = this.describeTrait(trait);
+    return plan.remaining.has(key) ? key : `*${trait.type}`;
+  }
+
+  private quotaProfile(plan: QuotaPlan, traits: Trait[]): string {
+    return traits.flatMap(trait => this.quotaClass(plan, trait) ?? []).join('|');
+  }
+
+  // How many of the remaining tokens each class must take
+  private quotaTargets(plan: QuotaPlan): Map<string, number> {
+    const targets = new Map<string, number>();
+    for (const [traitType, keys] of plan.layers) {
+      let free = plan.tokensLeft;
+      for (const key of keys) {
+        targets.set(key, plan.remaining.get(key)!);
+        free -= plan.remaining.get(key)!;
+      }
+      targets.set(`*${traitType}`, free);
+    }
+    return targets;
+  }
+
+  /**
+   * Whether a complete combination leaves the rest of the quotas satisfiable. A profile the
+   * current allocation still uses is fine; any other one is accepted only if the remaining
+   * tokens can be re-allocated around it.
+   */
+  private fitsQuotaPlan(traits: Trait[]): boolean {
+    const plan = this.quotaPlan;
+    if (!plan) return true;
+    plan.replanned = null;
+    if (!plan.allocation) return true;
+
+    const profile = this.quotaProfile(plan, traits);
+    if ((plan.allocation.get(profile) || 0) > 0) return true;
+    if (plan.rejected.has(profile)) return false;
+
+    const current = plan.profiles.get(profile);
+    const targets = this.quotaTargets(plan);
+    current?.classes.forEach(name => targets.set(name, targets.get(name)! - 1));
+    const allocation = current && current.capacity > 0
+      ? allocateQuotaProfiles(new Map(plan.profiles).set(profile, { ...current, capacity: current.capacity - 1 }), targets)
+      : 'infeasible';
+    if (allocation === 'infeasible') {
+      plan.rejected.add(profile);
+      return false;
+    }
+    plan.replanned = { profile, allocation: allocation === 'undecided' ? null : allocation };
+    return true;
+  }
+
+  private quotaEntries(key: string, layerTraits: Map<string, Trait[]>, quotaOf: (trait: Trait) => number | undefined): Array<[Trait, number]> {
+    return [...layerTraits.values()].flat()
+      .filter(trait => this.matchesConfigKey(trait, key))
+      .flatMap(trait => {
+        const quota = quotaOf(trait);
+        return quota === undefined ? [] : [[trait, quota] as [Trait, number]];
+      });
+  }
+
+  private consumeQuotas(traits: Trait[]): void {
+    if (!this.quotaPlan) return;
+    const plan = this.quotaPlan;
+    const profile = this.quotaProfile(plan, traits);
+    const current = plan.profiles.get(profile);
+    if (current) {
+      plan.profiles.set(profile, { ...current, capacity: Math.max(0, current.capacity - 1) });
+    }
+    if (plan.replanned?.profile === profile) {
+      plan.allocation = plan.replanned.allocation;
+    } else if (plan.allocation) {
+      plan.allocation.set(profile, (plan.allocation.get(profile) || 0) - 1);
+    }
+    plan.replanned = null;
+    plan.rejected.clear();
+
+    plan.tokensLeft--;
+    for (const trait of traits) {
+      const key = this.describeTrait(trait);
+      const remaining = plan.remaining.get(key);
+      if (remaining !== undefined) {
+        plan.remaining.set(key, remaining - 1);
+      }
     }
-    
-    return null; // No forced pairing found for this specific traitType
   }
 
+  /**
+   * Rolls down the folder tree: first between the top-level traits and categories of the
+   * layer using their own weights, then between the children of the chosen category, and so
+   * on until a leaf is reached. Only categories that still have candidates take part.
+   */
   private weightedRandomSelect(traits: Trait[]): Trait {
     if (traits.length === 0) {
       throw new GeneratorError(
@@ -410,22 +777,71 @@ export class TraitSelector {
       );
     }
 
-    if (traits.length === 1) {
-      return traits[0]!;
+    let candidates = traits;
+    for (let depth = 0; candidates.length > 1; depth++) {
+      const branches = this.groupByCategory(candidates, depth);
+      candidates = this.weightedPick(branches).traits;
     }
+    return candidates[0]!;
+  }
 
-    const totalWeight = traits.reduce((sum, trait) => sum + trait.weight, 0);
-    let random = Math.random() * totalWeight;
+  // Leaves sitting at this depth are branches of their own; deeper traits are grouped under their category
+  private groupByCategory(traits: Trait[], depth: number): Array<{ weight: number; traits: Trait[] }> {
+    const branches: Array<{ weight: number; traits: Trait[] }> = [];
+    const categories = new Map<string, { weight: number; traits: Trait[] }>();
 
     for (const trait of traits) {
-      random -= trait.weight;
+      const category = trait.lineage?.[depth];
+      if (!category) {
+        branches.push({ weight: trait.weight, traits: [trait] });
+        continue;
+      }
+      let branch = categories.get(category.name);
+      if (!branch) {
+        branch = { weight: category.weight, traits: [] };
+        categories.set(category.name, branch);
+        branches.push(branch);
+      }
+      branch.traits.push(trait);
+    }
+
+    return branches;
+  }
+
+  private weightedPick<T extends { weight: number }>(items: T[]): T {
+    if (items.length === 1) {
+      return items[0]!;
+    }
+
+    const totalWeight = items.reduce((sum, item) => sum + item.weight, 0);
+    let random = this.random() * totalWeight;
+
+    for (const item of items) {
+      random -= item.weight;
       if (random <= 0) {
-        return trait;
+        return item;
       }
     }
 
-    // Fallback to last trait (should only happen due to floating point precision errors)
-    return traits[traits.length - 1]!;
+    // Fallback to last item (should only happen due to floating point precision errors)
+    return items[items.length - 1]!;
+  }
+
+  // The chance weightedRandomSelect gives each trait, multiplied down the category levels
+  private getSelectionChances(traits: Trait[], depth: number = 0, share: number = 1, chances: Map<Trait, number> = new Map()): Map<Trait, number> {
+    const branches = this.groupByCategory(traits, depth);
+    const totalWeight = branches.reduce((sum, branch) => sum + branch.weight, 0);
+
+    for (const branch of branches) {
+      const branchShare = totalWeight > 0 ? share * branch.weight / totalWeight : 0;
+      if (branch.traits.length === 1 && !branch.traits[0]!.lineage?.[depth]) {
+        chances.set(branch.traits[0]!, branchShare);
+      } else {
+        this.getSelectionChances(branch.traits, depth + 1, branchShare, chances);
+      }
+    }
+
+    return chances;
   }
 
   private createTraitCombination(id: number, traits: Trait[]): TraitCombination {
@@ -435,23 +851,82 @@ export class TraitSelector {
       id,
       traits,
       rarity,
-      metadata: this.generateMetadata(id, traits),
+      metadata: this.generateMetadata(id, this.getAttributes(traits)),
       generatedAt: new Date()
     };
   }
 
-  private generateMetadata(id: number, traits: Trait[]): { ethereum: any; solana: any } {
-    const attributes = traits.map(trait => ({
-      trait_type: trait.type,
-      value: trait.name.split('#')[0],
-      rarity: trait.rarity
-    }));
+  // Moves a combination to its final token ID (names and URLs in the metadata embed the ID)
+  renumberCombination(combination: TraitCombination, id: number): TraitCombination {
+    if (combination.oneOfOne) {
+      return this.createOneOfOneCombination(id, combination.oneOfOne.token, combination.oneOfOne.source);
+    }
+    return {
+      ...combination,
+      id,
+      metadata: this.generateMetadata(id, this.getAttributes(combination.traits))
+    };
+  }
+
+  // Hand-made tokens carry their own attributes and never enter the uniqueness pool
+  createOneOfOneCombination(id: number, token: OneOfOneToken, source: string): TraitCombination {
+    const attributes: Attribute[] = token.attributes.map(attr => ({ trait_type: attr.trait_type, value: attr.value }));
+    return {
+      id,
+      traits: [],
+      rarity: this.rarityTracker.calculateRarity([]),
+      metadata: this.generateMetadata(id, attributes, token.name),
+      generatedAt: new Date(),
+      oneOfOne: { token, source }
+    };
+  }
+
+  private getAttributeValue(trait: Trait): string {
+    return trait.metadataValue || trait.displayName || trait.name.split('#')[0] || trait.name;
+  }
+
+  private getAttributes(traits: Trait[]): Attribute[] {
+    const categoryAttributes = this.config.metadata.category_attributes;
+    const tierAttributes = this.config.metadata.tier_attributes;
+
+    return traits.flatMap(trait => {
+      // Empty slots only show up when the optional layer has a none_label
+      if (trait.empty && !this.config.optional_layers?.[trait.type]?.none_label) {
+        return [];
+      }
+
+      const attributes: Attribute[] = [{
+        trait_type: trait.type,
+        value: this.getAttributeValue(trait),
+        ...(trait.rarity !== undefined ? { rarity: trait.rarity } : {})
+      }];
+
+      const categories = (trait.lineage || []).filter(category => !category.tier);
+      if (categoryAttributes?.enabled && categories.length > 0) {
+        attributes.push({
+          trait_type: categoryAttributes.label.replace('{type}', trait.type),
+          value: categories.map(category => category.displayName || category.name.split('#')[0] || category.name).join(' / ')
+        });
+      }
+
+      if (tierAttributes?.enabled && trait.tier !== undefined && this.config.rarity_tiers?.[trait.type]) {
+        attributes.push({ trait_type: tierAttributes.label.replace('{type}', trait.type), value: trait.tier });
+      }
+
+      return attributes;
+    });
+  }
+
+  private generateMetadata(id: number, attributes: Attribute[], name?: string): { ethereum: any; solana: any } {
+    const tokenName = name || `${this.config.metadata.name_prefix} #${id}`;
 
     const format = this.config.generation.output_format;
+    const output = VALIDATION_RULES.ANIMATION_OUTPUTS[format];
     let imageUrl: string;
     let animationUrl: string | undefined;
-    if (format === 'gif') {
-      imageUrl = `${this.config.metadata.image_base_uri}${id}.gif`;
+    if (format !== 'mp4') {
+      // Animated images (GIF, WebP, APNG) serve as both image and animation
+      imageUrl = `${this.config.metadata.image_base_uri}${id}.${output.extension}`;
       animationUrl = imageUrl; // prefer explicit animation_url for platforms that autoplay from this field
     } else {
       imageUrl = `${this.config.metadata.image_base_uri}${id}.png`;
@@ -460,7 +935,7 @@ export class TraitSelector {
 
     // Generate Ethereum metadata
     const ethereum: any = {
-      name: `${this.config.metadata.name_prefix} #${id}`,
+      name: tokenName,
       description: this.config.metadata.description,
       external_url: this.config.metadata.external_url,
       image: imageUrl,
@@ -476,7 +951,7 @@ export class TraitSelector {
     const configCreators = (solanaConfig.properties && solanaConfig.properties.creators) || [];
     const finalCreators = Array.isArray(configCreators) ? configCreators : [];
     const solana: any = {
-      name: `${this.config.metadata.name_prefix} #${id}`,
+      name: tokenName,
       description: this.config.metadata.description,
       image: imageUrl,
       attributes,
@@ -487,8 +962,8 @@ export class TraitSelector {
         category: (solanaConfig.properties && solanaConfig.properties.category) || 'image',
         creators: finalCreators,
         files: [
-          { uri: imageUrl, type: format === 'gif' ? 'image/gif' : 'image/png' },
-          ...(animationUrl && format !== 'gif' ? [{ uri: animationUrl, type: 'video/mp4' }] : [])
+          { uri: imageUrl, type: format === 'mp4' ? 'image/png' : output.mime },
+          ...(animationUrl && format === 'mp4' ? [{ uri: animationUrl, type: output.mime }] : [])
         ]
       }
     };
@@ -504,9 +979,5 @@ export class TraitSelector {
 
     return { ethereum, solana };
   }
-  
-  private getCombinationKey(combination: TraitCombination): string {
-    return combination.traits.map(t => `${t.type}:${t.name.split('#')[0]}`).sort().join('|');
-  }
 }
 
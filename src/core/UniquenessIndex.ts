@@ -0,0 +1,178 @@
+import { Trait } from '../types/traits';
+import { UniquenessConfig } from '../types/config';
+
+// Above this many masks per token, or masked keys in total, lookups use the block index
+const MAX_MASKS_PER_TOKEN = 100;
+const MAX_MASKED_KEYS = 500000;
+
+/**
+ * Tracks the tokens generated so far and answers whether a new selection is at least
+ * `min_distance` counted traits away from all of them.
+ *
+ * Two tokens are too close when they differ in at most min_distance - 1 counted layers,
+ * i.e. when they are identical once those layers are masked out. Every token is stored
+ * under each of its C(n, min_distance - 1) masked keys, so a lookup is a handful of set
+ * probes instead of a scan over the whole collection. With min_distance 1 this is the
+ * plain exact-duplicate check.
+ *
+ * The masked keys grow with tokens x masks, so past MAX_MASKED_KEYS (or when one token would
+ * need more than MAX_MASKS_PER_TOKEN) they are dropped for a block index: the counted layers
+ * are split into min_distance blocks, and a token that differs in fewer layers than that
+ * matches at least one block exactly. Each token then takes min_distance keys, and a lookup
+ * only compares against the tokens sharing a block with it.
+ */
+export class UniquenessIndex {
+  private minDistance: number;
+  private ignoredTypes: Set<string>;
+  private maskedKeys: Set<string> = new Set();
+  private tokens: string[][] = [];
+  private masks: number[][] | null = null;
+  private maskedLayerCount = -1;
+  private blocks: Map<string, number[]> | null = null;
+  private tokenLengths: Set<number> = new Set();
+
+  constructor(config: UniquenessConfig | undefined) {
+    this.minDistance = config?.min_distance ?? 1;
+    this.ignoredTypes = new Set(config?.ignore_types || []);
+  }
+
+  get size(): number {
+    return this.tokens.length;
+  }
+
+  counts(trait: Trait): boolean {
+    return !this.ignoredTypes.has(trait.type);
+  }
+
+  // Positions in `traits` that count toward uniqueness
+  countedPositions(traits: Trait[]): number[] {
+    return traits.flatMap((trait, position) => (this.counts(trait) ? [position] : []));
+  }
+
+  isTooClose(traits: Trait[]): boolean {
+    const values = this.getValues(traits);
+    if (this.blocks) {
+      return this.isTooCloseByBlocks(values);
+    }
+
+    const masks = this.getMasks(values.length);
+    if (masks) {
+      return masks.some(mask => this.maskedKeys.has(this.getMaskedKey(values, mask)));
+    }
+    return this.tokens.some(token => this.distance(token, values) < this.minDistance);
+  }
+
+  add(traits: Trait[]): void {
+    const values = this.getValues(traits);
+    const masks = this.getMasks(values.length);
+
+    if (!this.blocks && (!masks || this.maskedKeys.size + masks.length > MAX_MASKED_KEYS)) {
+      // Drop the masked keys and index every token so far by block instead
+      this.maskedKeys = new Set();
+      this.blocks = new Map();
+      this.tokens.forEach((token, index) => this.addBlocks(token, index));
+    }
+
+    this.tokens.push(values);
+    this.tokenLengths.add(values.length);
+    if (this.blocks) {
+      this.addBlocks(values, this.tokens.length - 1);
+    } else {
+      masks!.forEach(mask => this.maskedKeys.add(this.getMaskedKey(values, mask)));
+    }
+  }
+
+  private isTooCloseByBlocks(values: string[]): boolean {
+    // Blocks only line up between tokens with the same number of counted traits
+    if (this.tokenLengths.size > 1 || values.length < this.minDistance) {
+      return this.tokens.some(token => this.distance(token, values) < this.minDistance);
+    }
+
+    const checked = new Set<number>();
+    for (const key of this.getBlockKeys(values)) {
+      for (const index of this.blocks!.get(key) || []) {
+        if (checked.has(index)) continue;
+        checked.add(index);
+        if (this.distance(this.tokens[index]!, values) < this.minDistance) return true;
+      }
+    }
+    return false;
+  }
+
+  private addBlocks(values: string[], index: number): void {
+    for (const key of this.getBlockKeys(values)) {
+      const tokens = this.blocks!.get(key);
+      if (tokens) {
+        tokens.push(index);
+      } else {
+        this.blocks!.set(key, [index]);
+      }
+    }
+  }
+
+  // min_distance contiguous blocks of the values, keyed by their position and contents
+  private getBlockKeys(values: string[]): string[] {
+    const count = Math.min(this.minDistance, values.length);
+    return Array.from({ length: count }, (_, block) => {
+      const start = Math.floor(block * values.length / count);
+      const end = Math.floor((block + 1) * values.length / count);
+      return `${values.length}#${block}#${values.slice(start, end).join('|')}`;
+    });
+  }
+
+  // Counted traits ordered by type, so two tokens compare position by position.
+  // Categories are part of the value, so Crown/Gold and Helmet/Gold are different traits
+  private getValues(traits: Trait[]): string[] {
+    return traits
+      .filter(trait => this.counts(trait))
+      .sort((a, b) => a.type.localeCompare(b.type))
+      .map(trait => `${trait.type}:${[...(trait.lineage || []).filter(category => !category.tier).map(category => category.name), trait.name.split('#')[0]].join('/')}`);
+  }
+
+  private distance(a: string[], b: string[]): number {
+    let differing = Math.abs(a.length - b.length);
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      if (a[i] !== b[i]) differing++;
+    }
+    return differing;
+  }
+
+  private getMaskedKey(values: string[], mask: number[]): string {
+    const masked = [...values];
+    mask.forEach(position => { masked[position] = '*'; });
+    return masked.join('|');
+  }
+
+  // Every way of choosing min_distance - 1 positions out of layerCount, or null when there are too many
+  private getMasks(layerCount: number): number[][] | null {
+    if (this.maskedLayerCount === layerCount) {
+      return this.masks;
+    }
+
+    const size = Math.min(this.minDistance - 1, layerCount);
+    let total = 1;
+    for (let i = 0; i < size; i++) {
+      total = total * (layerCount - i) / (i + 1);
+    }
+
+    const masks: number[][] = [];
+    if (total <= MAX_MASKS_PER_TOKEN) {
+      const choose = (start: number, chosen: number[]) => {
+        if (chosen.length === size) {
+          masks.push([...chosen]);
+          return;
+        }
+        for (let position = start; position < layerCount; position++) {
+          chosen.push(position);
+          choose(position + 1, chosen);
+          chosen.pop();
+        }
+      };
+      choose(0, []);
+    }
+
+    this.masks = total <= MAX_MASKS_PER_TOKEN ? masks : null;
+    this.maskedLayerCount = layerCount;
+    return this.masks;
+  }
+}
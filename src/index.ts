@@ -22,7 +22,9 @@ program
   .option('-c, --config <path>', 'Config file path', 'config/generator_config.json')
   .option('-b, --batch-size <number>', 'Batch size for processing', '100')
   .option('--count <number>', 'Number of NFTs to generate (overrides config)')
+  .option('-s, --seed <value>', 'Seed for reproducible trait selection (overrides config)')
   .option('-r, --resume', 'Resume from last checkpoint')
+  .option('-e, --extend', 'Add tokens to the existing collection in output/ (IDs continue after the last token)')
   .option('-v, --verbose', 'Verbose output')
   .option('--dry-run', 'Validate without generating')
   .action(async (options) => {
@@ -33,7 +35,10 @@ program
       
       if (options.dryRun) {
         spinner.text = 'Validating configuration and layers...';
-        await generator.validate();
+        await generator.validate({
+          totalCount: options.count ? parseInt(options.count) : undefined,
+          extend: options.extend
+        });
         spinner.succeed('Validation completed successfully');
         return;
       }
@@ -43,7 +48,9 @@ program
         resume: options.resume,
         verbose: options.verbose,
         batchSize: parseInt(options.batchSize),
-        totalCountOverride: options.count ? parseInt(options.count) : undefined
+        totalCountOverride: options.count ? parseInt(options.count) : undefined,
+        seed: options.seed,
+        extend: options.extend
       });
       
       spinner.succeed('Generation completed successfully');
@@ -62,13 +69,15 @@ program
   .command('metadata')
   .description('Generate metadata only')
   .option('-c, --config <path>', 'Config file path', 'config/generator_config.json')
+  .option('-s, --seed <value>', 'Seed for reproducible trait selection (overrides config)')
   .option('-r, --resume', 'Resume from last checkpoint')
+  .option('-e, --extend', 'Add tokens to the existing collection in output/ (IDs continue after the last token)')
   .action(async (options) => {
     const spinner = ora('Generating metadata...').start();
     
     try {
       const generator = new Generator(options.config);
-      await generator.generateMetadata({ resume: options.resume });
+      await generator.generateMetadata({ resume: options.resume, seed: options.seed, extend: options.extend });
       spinner.succeed('Metadata generation completed');
     } catch (error) {
       spinner.fail('Metadata generation failed');
@@ -104,6 +113,9 @@ program
   .description('Validate layer structure')
   .option('-l, --layers <path>', 'Layers directory path', 'layers')
   .option('--strict', 'Enable strict validation')
+  .option('-c, --config <path>', 'Config file path (used by --preview)', 'config/generator_config.json')
+  .option('--preview <count>', 'Render the first frame of this many random combinations to output/previews, with blend modes and opacity applied')
+  .option('-s, --seed <value>', 'Seed for the preview combinations')
   .action(async (options) => {
     const spinner = ora('Validating layer structure...').start();
     
@@ -121,6 +133,12 @@ program
           console.log(chalk.yellow('\nWarnings:'));
           result.warnings.forEach(warning => console.log(chalk.yellow(`  ⚠ ${warning}`)));
         }
+
+        if (options.preview) {
+          const previewSpinner = ora('Rendering layer previews...').start();
+          const files = await new Generator(options.config).renderLayerPreviews(parseInt(options.preview), options.seed);
+          previewSpinner.succeed(`Rendered ${files.length} previews to output/previews`);
+        }
       } else {
         spinner.fail('Layer validation failed');
         console.log(chalk.red('\nErrors:'));
@@ -134,18 +152,116 @@ program
     }
   });
 
+// Lint rules command
+program
+  .command('lint-rules')
+  .description('Check every rule key in the config against the layers')
+  .option('-c, --config <path>', 'Config file path', 'config/generator_config.json')
+  .action(async (options) => {
+    const spinner = ora('Linting trait rules...').start();
+    
+    try {
+      const generator = new Generator(options.config);
+      const result = await generator.lintRules();
+      
+      if (result.isValid) {
+        spinner.succeed('Rule lint passed');
+      } else {
+        spinner.fail('Rule lint failed');
+        console.log(chalk.red('\nErrors:'));
+        result.errors.forEach(error => console.log(chalk.red(`  ✗ ${error}`)));
+      }
+      if (result.warnings.length > 0) {
+        console.log(chalk.yellow('\nWarnings:'));
+        result.warnings.forEach(warning => console.log(chalk.yellow(`  ⚠ ${warning}`)));
+      }
+      if (!result.isValid) {
+        process.exit(1);
+      }
+    } catch (error) {
+      spinner.fail('Rule lint failed');
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Tag expansion command
+program
+  .command('list-tags')
+  .description('Show which traits every #tag expands to')
+  .option('-c, --config <path>', 'Config file path', 'config/generator_config.json')
+  .action(async (options) => {
+    const spinner = ora('Expanding trait tags...').start();
+    
+    try {
+      const generator = new Generator(options.config);
+      const tags = await generator.listTags();
+      
+      spinner.succeed(`Found ${Object.keys(tags).length} tags`);
+      Object.entries(tags)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .forEach(([tag, traits]) => {
+          console.log(chalk.cyan(`\n#${tag}`) + chalk.gray(` (${traits.length})`));
+          traits.forEach(trait => console.log(chalk.gray(`   ${trait}`)));
+        });
+    } catch (error) {
+      spinner.fail('Tag expansion failed');
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Capacity analysis command
+program
+  .command('analyze-capacity')
+  .description('Count the unique trait combinations the layers and rules allow')
+  .option('-c, --config <path>', 'Config file path', 'config/generator_config.json')
+  .option('--count <number>', 'Number of NFTs to check against (overrides config)')
+  .action(async (options) => {
+    const spinner = ora('Analyzing combination capacity...').start();
+    
+    try {
+      const generator = new Generator(options.config);
+      const analysis = await generator.analyzeCapacity(options.count ? parseInt(options.count) : undefined);
+      
+      spinner.succeed('Capacity analysis completed');
+      console.log(chalk.blue('\nLayers:'));
+      analysis.layers.forEach(layer => {
+        console.log(chalk.gray(`   ${layer.traitType}: ${layer.traits} traits`));
+      });
+      console.log(chalk.gray(`\nWithout rules:    ${analysis.unconstrained.toLocaleString()}`));
+      console.log(chalk.cyan(`Valid unique:     ${analysis.capacity.toLocaleString()}${analysis.exact ? '' : ' (upper bound)'}`));
+      console.log(chalk.cyan(`Requested:        ${analysis.requested.toLocaleString()}`));
+      if (analysis.headroom >= 0) {
+        const percent = analysis.capacity > 0 ? (100 * analysis.requested / analysis.capacity).toFixed(2) : '0';
+        console.log(chalk.green(`✓ Headroom:       ${analysis.headroom.toLocaleString()} (${percent}% of the space used)`));
+      } else {
+        console.log(chalk.red(`✗ Short by ${(-analysis.headroom).toLocaleString()} combinations`));
+        process.exit(1);
+      }
+      if (!analysis.exact) {
+        console.log(chalk.yellow('⚠ uniqueness.min_distance (or rules on ignored layers) lowers the real capacity further'));
+      }
+    } catch (error) {
+      spinner.fail('Capacity analysis failed');
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 // Preview traits command
 program
   .command('preview-traits')
   .description('Preview trait combinations')
   .option('-c, --config <path>', 'Config file path', 'config/generator_config.json')
   .option('--count <number>', 'Number of combinations to preview', '10')
+  .option('-s, --seed <value>', 'Seed for reproducible trait selection (overrides config)')
   .action(async (options) => {
     const spinner = ora('Generating trait preview...').start();
     
     try {
       const generator = new Generator(options.config);
-      const combinations = await generator.previewTraits(parseInt(options.count));
+      const combinations = await generator.previewTraits(parseInt(options.count), options.seed);
       
       spinner.succeed('Trait preview generated');
       console.log(chalk.blue('\nTrait Combinations:'));
@@ -201,6 +317,65 @@ program
     }
   });
 
+// Provenance command
+program
+  .command('provenance')
+  .description('Hash every animation into output/provenance.json, or apply the reveal offset')
+  .option('-c, --config <path>', 'Config file path', 'config/generator_config.json')
+  .option('--reveal <value>', 'Value published after the provenance hash (e.g. a block hash); renumbers tokens by the starting index derived from it')
+  .action(async (options) => {
+    const spinner = ora(options.reveal !== undefined ? 'Applying reveal offset...' : 'Hashing animations...').start();
+
+    try {
+      const generator = new Generator(options.config);
+      const record = await generator.recordProvenance(options.reveal);
+
+      if (record.reveal) {
+        spinner.succeed(`Revealed ${record.tokens.length} tokens`);
+        console.log(chalk.cyan(`Starting index:  ${record.reveal.starting_index}`));
+      } else {
+        spinner.succeed(`Hashed ${record.tokens.length} animations into output/provenance.json`);
+      }
+      console.log(chalk.cyan(`Provenance hash: ${record.provenance_hash}`));
+    } catch (error) {
+      spinner.fail('Provenance failed');
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Provenance verification command
+program
+  .command('verify-provenance')
+  .description('Recompute every hash and the reveal offset from the files and compare with output/provenance.json')
+  .option('-c, --config <path>', 'Config file path', 'config/generator_config.json')
+  .action(async (options) => {
+    const spinner = ora('Verifying provenance...').start();
+
+    try {
+      const generator = new Generator(options.config);
+      const result = await generator.verifyProvenance();
+
+      if (result.isValid) {
+        spinner.succeed(`Provenance verified for ${result.record.tokens.length} tokens`);
+      } else {
+        spinner.fail('Provenance verification failed');
+        result.errors.forEach(error => console.log(chalk.red(`  ✗ ${error}`)));
+      }
+      console.log(chalk.cyan(`Provenance hash: ${result.computedHash}`));
+      if (result.record.reveal) {
+        console.log(chalk.cyan(`Starting index:  ${result.record.reveal.starting_index} (from "${result.record.reveal.value}")`));
+      }
+      if (!result.isValid) {
+        process.exit(1);
+      }
+    } catch (error) {
+      spinner.fail('Provenance verification failed');
+      console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 // Resume command
 program
   .command('resume')
@@ -1,3 +1,15 @@
+import { BlendOptions } from './traits';
+
+// fixed: every trait looped or cut to frames_per_animation (the default)
+// lcm: each token runs for the least common multiple of its traits' loop lengths, so every loop closes seamlessly
+// resample: every token runs frames_per_animation frames and each trait is stretched or squeezed in time to fit
+export type FrameAlignmentMode = 'fixed' | 'lcm' | 'resample';
+
+export interface FrameAlignmentConfig {
+  mode: FrameAlignmentMode;
+  max_frames: number; // lcm only: longer cycles fall back to resampling to frames_per_animation
+}
+
 export interface GenerationConfig {
   total_nfts: number;
   frames_per_animation: number;
@@ -6,11 +18,18 @@ export interface GenerationConfig {
     height: number;
   };
   upscaling: 'nearest_neighbour' | 'smooth';
+  // Canvas size that positioned layers' sizes and offsets are authored for; defaults to dimensions
+  layout_dimensions?: {
+    width: number;
+    height: number;
+  };
   frame_rate: number;
-  output_format: 'gif' | 'mp4';
+  frame_alignment?: FrameAlignmentConfig;
+  output_format: 'gif' | 'mp4' | 'webp' | 'apng';
   batch_size: number;
   max_concurrent: number;
   resume_from?: number | null;
+  seed?: string | number | null;
 }
 
 export interface PerformanceConfig {
@@ -41,6 +60,16 @@ export interface MetadataConfig {
   image_base_uri: string;
   animation_base_uri: string;
   background_color?: string; // optional hex (without #), used by ETH metadata
+  // Adds an attribute naming the category folder(s) above each nested trait, e.g. "Hat Category: Crown"
+  category_attributes?: {
+    enabled: boolean;
+    label: string; // '{type}' is replaced by the trait type
+  };
+  // Adds an attribute with the rarity tier of each trait on a tiered layer, e.g. "Hat Tier: Legendary"
+  tier_attributes?: {
+    enabled: boolean;
+    label: string; // '{type}' is replaced by the trait type
+  };
   // Solana-specific fields
   solana: {
     symbol: string;
@@ -64,16 +93,85 @@ export interface MetadataConfig {
   };
 }
 
+export interface OneOfOneToken {
+  source: string; // folder of PNG frames, or a ready-made animation in the output_format's file type
+  attributes: Array<{
+    trait_type: string;
+    value: string;
+  }>;
+  token_id?: number; // fixed token ID; a seeded random free ID is used when omitted
+  name?: string; // defaults to "<name_prefix> #<id>"
+}
+
+export interface TokenIdRange {
+  from: number;
+  to: number; // inclusive
+}
+
+export interface TokenIdsConfig {
+  start: number; // first token ID (0 for Candy Machine)
+  reserved?: TokenIdRange[]; // IDs never assigned, e.g. kept back for a team mint
+  shuffle?: boolean; // seeded shuffle of generated tokens over their IDs once selection is done
+}
+
+export interface OneOfOnesConfig {
+  path: string;
+  tokens: OneOfOneToken[];
+}
+
+export interface OptionalLayerConfig {
+  none_weight: number; // weight of leaving the layer empty, rolled against the layer's top-level traits
+  none_label?: string; // attribute value for empty slots; the attribute is omitted when not set
+}
+
+export interface UniquenessConfig {
+  min_distance: number; // minimum number of counted trait types in which any two tokens must differ
+  ignore_types?: string[]; // trait types that don't count toward uniqueness, e.g. Background
+}
+
+export interface RarityTierLayerConfig {
+  weights: Record<string, number>; // tier -> weight; the tier is rolled before the trait within it
+  traits?: Record<string, string[]>; // tier -> trait keys, patterns or #tags; trait.json `tier` also assigns one
+}
+
+// One entry of the rule language, e.g. { if: 'Body:Robot AND NOT Hat:None', require: 'Eyes:Laser OR Eyes:Visor' }
+export interface TraitRule {
+  if?: string; // condition expression; the rule always applies when omitted
+  require?: string; // expression every matching token must satisfy
+  forbid?: string; // expression no matching token may satisfy
+  reweight?: Record<string, number>; // trait key or pattern -> replacement weight (0 removes the trait)
+}
+
 export interface GeneratorConfig {
   generation: GenerationConfig;
   performance: PerformanceConfig;
   animation: AnimationConfig;
   trait_processing_order: string[];
+  // Layer stacking from bottom to top; defaults to trait_processing_order, unlisted layers go on top in that order
+  render_order?: string[];
+  // Trait key or pattern -> depth on the render_order scale (layer i sits at i), e.g. { 'Hair:Long': 4.5 }
+  z_index?: Record<string, number>;
+  // Layer -> render part -> depth, e.g. { 'Hair': { 'back': 0.5 } } draws the back of every hair behind the body
+  render_parts?: Record<string, Record<string, number>>;
+  // Layer -> layer whose selected trait picks the asset subfolder, e.g. { 'Clothes': 'Body' } for Clothes/Hoodie/Robot
+  variant_by?: Record<string, string>;
+  // Trait key, pattern or #tag -> blend mode and opacity, e.g. { 'Lighting:*': { blend: 'screen', opacity: 0.6 } }
+  blending?: Record<string, BlendOptions>;
   incompatible_traits: Record<string, string[]>;
   forced_pairings: Record<string, string[]>;
   dependent_traits?: Record<string, string>;
   exclusive_groups?: Record<string, string[]>;
   conditional_rarity?: Record<string, Record<string, number>>;
+  rules?: TraitRule[];
+  // Tag -> trait keys or patterns; rules can then use '#tag' wherever a trait key is accepted
+  trait_tags?: Record<string, string[]>;
+  // Exact number of tokens that must carry a trait ('Type:Name' -> count) across the whole run
+  trait_quotas?: Record<string, number>;
+  optional_layers?: Record<string, OptionalLayerConfig>;
+  rarity_tiers?: Record<string, RarityTierLayerConfig>;
+  uniqueness?: UniquenessConfig;
+  one_of_ones?: OneOfOnesConfig;
+  token_ids?: TokenIdsConfig;
   metadata: MetadataConfig;
   validation: ValidationConfig;
 }
@@ -24,6 +24,7 @@ export interface GenerationInfo {
   timestamp: string;
   version: string;
   seed: string;
+  first_token_id?: number; // set when the run extended an existing collection
 }
 
 export interface CollectionMetadata {
@@ -57,3 +58,26 @@ export interface GenerationStats {
   warnings: number;
 }
 
+
+// output/provenance.json: hashes of the final animations, recorded before the reveal
+export interface ProvenanceRecord {
+  algorithm: 'sha256';
+  provenance_hash: string; // hash of every token hash concatenated in the original token order
+  created_at: string;
+  tokens: ProvenanceToken[];
+  pinned_token_ids?: number[]; // promised IDs (1/1 token_ids, earlier --extend phases) the reveal leaves in place
+  reveal?: ProvenanceReveal;
+}
+
+export interface ProvenanceToken {
+  index: number; // position in the original token order
+  token_id: number; // current token ID (moves with the reveal offset)
+  hash: string;
+}
+
+export interface ProvenanceReveal {
+  value: string; // value published after the provenance hash, e.g. a block hash
+  starting_index: number;
+  revealed_at: string;
+  pending?: 'staging' | 'moving'; // set while files are being renumbered, so an interrupted reveal can be resumed
+}
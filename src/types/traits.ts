@@ -1,10 +1,144 @@
+import { OneOfOneToken, TraitRule } from './config';
+
+// An intermediate folder above a leaf trait, e.g. Crown(2) in Hat/Crown(2)/Gold(5)
+export interface TraitCategory {
+  name: string;
+  weight: number;
+  displayName?: string;
+  tier?: boolean; // rarity tier TraitSelector rolls above the folder levels of a tiered layer
+}
+
+// Blend modes sharp composites with (VALIDATION_RULES.BLEND_MODES)
+export type BlendMode =
+  | 'clear' | 'source' | 'over' | 'in' | 'out' | 'atop' | 'dest' | 'dest-over' | 'dest-in' | 'dest-out' | 'dest-atop'
+  | 'xor' | 'add' | 'saturate' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten' | 'colour-dodge' | 'color-dodge'
+  | 'colour-burn' | 'color-burn' | 'hard-light' | 'soft-light' | 'difference' | 'exclusion';
+
+export interface BlendOptions {
+  blend?: BlendMode; // how the frames are composited onto the layers below; defaults to 'over'
+  opacity?: number; // 0-1, multiplies the frames' alpha
+}
+
+export type LayerAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+// Places frames at their own size instead of stretching them to the canvas. Sizes and offsets are
+// in layout pixels (generation.layout_dimensions) and scale with the canvas
+export interface LayerPosition {
+  anchor: LayerAnchor; // the frame's anchor point is placed on the canvas's anchor point
+  x: number; // offset to the right
+  y: number; // offset downwards
+  width?: number; // native size; read from the frame when omitted
+  height?: number;
+}
+
+export interface TraitRenderOptions extends BlendOptions {
+  upscaling?: 'nearest_neighbour' | 'smooth'; // overrides generation.upscaling for this trait's frames
+  position?: LayerPosition;
+  z_index?: number; // depth on the render_order scale; overrides the layer's position
+  parts?: Record<string, number>; // render part folder name -> depth; declares parts other than front/back
+}
+
+// Optional trait.json in a leaf or intermediate trait folder; overrides what the folder name says
+export interface TraitManifest {
+  weight?: number;
+  display_name?: string;
+  description?: string;
+  tags?: string[];
+  metadata_value?: string; // attribute value written to metadata
+  tier?: string; // rarity tier on layers listed in rarity_tiers
+  rules?: TraitRule[]; // rules that apply while this trait (or a trait below this category) is selected
+  render?: TraitRenderOptions;
+}
+
+// One separately composited frame set of a trait, e.g. Hair/Long/back
+export interface TraitPart {
+  name: string;
+  path: string;
+  frames: string[];
+  timing?: FrameTiming;
+}
+
+// Frame file name -> display duration in ms, from timing.json and frame_001@500ms.png suffixes.
+// Frames without one last 1000 / frame_rate ms
+export type FrameTiming = Record<string, number>;
+
+// Optional timing.json next to a trait's frames
+export interface FrameTimingManifest {
+  default?: number; // ms for every frame not listed
+  frames?: Record<string, number>; // frame file name -> ms
+}
+
+// Rectangles and sizes as Aseprite and TexturePacker write them in their JSON atlases
+export interface SheetRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface SheetAtlasFrame {
+  filename?: string;
+  frame: SheetRect; // area in the sheet (h x w when rotated)
+  rotated?: boolean; // stored turned 90° clockwise
+  trimmed?: boolean;
+  spriteSourceSize?: SheetRect; // where the trimmed area goes in the untrimmed frame
+  sourceSize?: { w: number; h: number };
+  duration?: number; // ms
+}
+
+// Row-major grid of equal frames; sizes missing from it are derived from the sheet
+export interface SheetGrid {
+  columns?: number;
+  rows?: number;
+  frame_width?: number;
+  frame_height?: number;
+  count?: number; // frames in use, when the last row isn't full
+  duration?: number; // ms for every frame
+}
+
+// Optional sheet.json next to a sheet.png: an exported atlas or a grid spec
+export interface SpriteSheetManifest {
+  frames?: SheetAtlasFrame[] | Record<string, SheetAtlasFrame>;
+  grid?: SheetGrid;
+}
+
+// Asset files of a leaf folder: its frames, or the frame sets of its render parts
+export interface TraitAssets {
+  path: string;
+  frames: string[];
+  timing?: FrameTiming;
+  parts?: TraitPart[];
+}
+
 export interface Trait {
   type: string;
   name: string;
   weight: number;
   path: string;
   frames: string[];
+  timing?: FrameTiming;
   rarity?: number;
+  // Categories from the top of the layer down to the leaf; empty for top-level traits
+  lineage?: TraitCategory[];
+  // Synthetic empty slot of an optional layer; has no frames and is never composited
+  empty?: boolean;
+  // From trait.json; tags and rules include those of the categories above the trait
+  displayName?: string;
+  description?: string;
+  tags?: string[];
+  metadataValue?: string;
+  rules?: TraitRule[];
+  render?: TraitRenderOptions;
+  // Rarity tier; from trait.json (inherited from categories) or the layer's rarity_tiers entry
+  tier?: string;
+  // Front/back (or named) frame sets of a split trait; path and frames are unused when set
+  parts?: TraitPart[];
+  // Trait of a variant_by layer: one asset folder per trait of the variant-by layer, resolved after selection
+  variantBy?: string;
+  variants?: Record<string, TraitAssets>;
 }
 
 export interface TraitCombination {
@@ -13,6 +147,11 @@ export interface TraitCombination {
   rarity: RarityScore;
   metadata: any;
   generatedAt: Date;
+  // Set for hand-made 1/1 tokens; `source` is the resolved frames folder or animation file
+  oneOfOne?: {
+    token: OneOfOneToken;
+    source: string;
+  };
 }
 
 export interface RarityScore {
@@ -28,7 +167,10 @@ export interface TraitHierarchy {
       weight: number;
       path: string;
       frames: string[];
+      timing?: FrameTiming;
       subTraits?: TraitHierarchy;
+      parts?: Record<string, { path: string; frames: string[]; timing?: FrameTiming }>;
+      manifest?: TraitManifest;
     };
   };
 }
@@ -41,6 +183,16 @@ export interface LayerStructure {
   totalFrames: number;
 }
 
+export interface CapacityReport {
+  // Unique combinations that satisfy every rule
+  capacity: number;
+  // Product of the layer sizes, ignoring rules
+  unconstrained: number;
+  layers: Array<{ traitType: string; traits: number }>;
+  // False when uniqueness settings make `capacity` an upper bound rather than an exact count
+  exact: boolean;
+}
+
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
@@ -0,0 +1,27 @@
+import crypto from 'crypto';
+import seedrandom from 'seedrandom';
+
+// A random source returns a float in [0, 1), exactly like Math.random
+export type RandomSource = () => number;
+
+// Creates a deterministic random source; the same seed always yields the same sequence
+export function createRandom(seed: string): RandomSource {
+  const rng = seedrandom(seed);
+  return () => rng();
+}
+
+// Generates a fresh seed for runs that don't specify one, so the run can still be reproduced later
+export function generateSeed(): string {
+  return crypto.randomBytes(8).toString('hex');
+}
+
+// Fisher-Yates shuffle driven by the given random source (mutates and returns the array)
+export function shuffleInPlace<T>(items: T[], random: RandomSource): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const tmp = items[i]!;
+    items[i] = items[j]!;
+    items[j] = tmp;
+  }
+  return items;
+}
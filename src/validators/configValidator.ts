@@ -1,8 +1,20 @@
 import Joi from 'joi';
 import { GeneratorConfig } from '../types/config';
 import { GeneratorError, ErrorType } from '../types/errors';
+import { VALIDATION_RULES } from '../constants/validation';
 import logger from '../utils/logger';
 
+// Shared by the config's `rules` section and the `rules` of trait.json manifests
+export const traitRuleSchema = Joi.object({
+  if: Joi.string().min(1).optional(),
+  require: Joi.string().min(1).optional(),
+  forbid: Joi.string().min(1).optional(),
+  reweight: Joi.object().pattern(
+    Joi.string(),
+    Joi.number().min(0)
+  ).optional()
+}).or('require', 'forbid', 'reweight');
+
 export class ConfigValidator {
   private schema: Joi.ObjectSchema;
 
@@ -16,11 +28,20 @@ export class ConfigValidator {
           height: Joi.number().integer().min(32).max(4096).required()
         }).required(),
         upscaling: Joi.string().valid('nearest_neighbour', 'smooth').required(),
+        layout_dimensions: Joi.object({
+          width: Joi.number().integer().min(1).required(),
+          height: Joi.number().integer().min(1).required()
+        }).optional(),
         frame_rate: Joi.number().integer().min(1).max(120).required(),
-        output_format: Joi.string().valid('gif', 'mp4').required(),
+        frame_alignment: Joi.object({
+          mode: Joi.string().valid('fixed', 'lcm', 'resample').default('fixed'),
+          max_frames: Joi.number().integer().min(1).max(VALIDATION_RULES.MAX_FRAME_COUNT).default(120)
+        }).optional(),
+        output_format: Joi.string().valid('gif', 'mp4', 'webp', 'apng').required(),
         batch_size: Joi.number().integer().min(1).max(10000).required(),
         max_concurrent: Joi.number().integer().min(1).max(32).required(),
-        resume_from: Joi.number().integer().min(0).allow(null).optional()
+        resume_from: Joi.number().integer().min(0).allow(null).optional(),
+        seed: Joi.alternatives().try(Joi.string().min(1), Joi.number()).allow(null).optional()
       }).required(),
       
       performance: Joi.object({
@@ -41,6 +62,14 @@ export class ConfigValidator {
       }).required(),
       
       trait_processing_order: Joi.array().items(Joi.string()).min(1).required(),
+      render_order: Joi.array().items(Joi.string()).unique().optional(),
+      z_index: Joi.object().pattern(Joi.string(), Joi.number()).optional(),
+      render_parts: Joi.object().pattern(Joi.string(), Joi.object().pattern(Joi.string(), Joi.number())).optional(),
+      blending: Joi.object().pattern(Joi.string(), Joi.object({
+        blend: Joi.string().valid(...VALIDATION_RULES.BLEND_MODES).optional(),
+        opacity: Joi.number().min(0).max(1).optional()
+      }).or('blend', 'opacity')).optional(),
+      variant_by: Joi.object().pattern(Joi.string(), Joi.string()).optional(),
       
       incompatible_traits: Joi.object().pattern(
         Joi.string(),
@@ -70,6 +99,61 @@ export class ConfigValidator {
         )
       ).optional(),
       
+      rules: Joi.array().items(traitRuleSchema).optional(),
+      
+      trait_tags: Joi.object().pattern(
+        Joi.string().pattern(/^[^#\s:]+$/),
+        Joi.array().items(Joi.string())
+      ).optional(),
+      
+      trait_quotas: Joi.object().pattern(
+        Joi.string(),
+        Joi.number().integer().min(0)
+      ).optional(),
+      
+      optional_layers: Joi.object().pattern(
+        Joi.string(),
+        Joi.object({
+          none_weight: Joi.number().min(0).required(),
+          none_label: Joi.string().min(1).optional()
+        })
+      ).optional(),
+      
+      rarity_tiers: Joi.object().pattern(
+        Joi.string(),
+        Joi.object({
+          weights: Joi.object().pattern(Joi.string(), Joi.number().min(0)).min(1).required(),
+          traits: Joi.object().pattern(Joi.string(), Joi.array().items(Joi.string())).optional()
+        })
+      ).optional(),
+      
+      uniqueness: Joi.object({
+        min_distance: Joi.number().integer().min(1).default(1),
+        ignore_types: Joi.array().items(Joi.string()).unique().optional()
+      }).optional(),
+      
+      one_of_ones: Joi.object({
+        path: Joi.string().default('one_of_ones'),
+        tokens: Joi.array().items(Joi.object({
+          source: Joi.string().required(),
+          attributes: Joi.array().items(Joi.object({
+            trait_type: Joi.string().required(),
+            value: Joi.string().required()
+          })).required(),
+          token_id: Joi.number().integer().min(0).optional(),
+          name: Joi.string().optional()
+        })).unique('token_id', { ignoreUndefined: true }).required()
+      }).optional(),
+
+      token_ids: Joi.object({
+        start: Joi.number().integer().min(0).default(1),
+        reserved: Joi.array().items(Joi.object({
+          from: Joi.number().integer().min(0).required(),
+          to: Joi.number().integer().min(Joi.ref('from')).required()
+        })).optional(),
+        shuffle: Joi.boolean().default(false)
+      }).optional(),
+      
       metadata: Joi.object({
         name_prefix: Joi.string().required(),
         description: Joi.string().required(),
@@ -77,6 +161,14 @@ export class ConfigValidator {
         image_base_uri: Joi.string().uri().required(),
         animation_base_uri: Joi.string().uri().required(),
         background_color: Joi.string().pattern(/^[0-9a-fA-F]{6}$/).optional(),
+        category_attributes: Joi.object({
+          enabled: Joi.boolean().default(false),
+          label: Joi.string().min(1).default('{type} Category')
+        }).optional(),
+        tier_attributes: Joi.object({
+          enabled: Joi.boolean().default(false),
+          label: Joi.string().min(1).default('{type} Tier')
+        }).optional(),
         solana: Joi.object({
           symbol: Joi.string().required(),
           seller_fee_basis_points: Joi.number().integer().min(0).max(10000).required(),
@@ -184,7 +276,8 @@ export class ConfigValidator {
         output_format: 'gif',
         batch_size: 100,
         max_concurrent: 4,
-        resume_from: null
+        resume_from: null,
+        seed: null
       },
       performance: {
         worker_threads: true,
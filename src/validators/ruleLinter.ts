@@ -0,0 +1,495 @@
+import { GeneratorConfig, TraitRule } from '../types/config';
+import { TraitHierarchy } from '../types/traits';
+import { VALIDATION_RULES } from '../constants/validation';
+import { collectAtoms, parseRuleAtom, parseRuleExpression } from '../core/RuleEngine';
+import { cleanTraitName, collectLeafNames, isVariantFolder } from '../core/LayerProcessor';
+import logger from '../utils/logger';
+
+export interface RuleLintResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Resolves every free-form 'Type:Name' / 'Name' key used by the rule sections of the config
+ * against the parsed layer hierarchy. TraitSelector silently ignores keys that match nothing,
+ * so typos only show up here.
+ */
+export class RuleLinter {
+  private config: GeneratorConfig;
+  // trait type -> clean leaf trait names
+  private traitsByType: Map<string, Set<string>> = new Map();
+  // tag -> 'Type:Name' keys of the traits carrying it
+  private tags: Map<string, Set<string>> = new Map();
+  // variant_by layer -> names of the variant-by layer's traits
+  private variantNames: Map<string, Set<string>> = new Map();
+  private errors: string[] = [];
+  private warnings: string[] = [];
+
+  constructor(config: GeneratorConfig) {
+    this.config = config;
+  }
+
+  lint(hierarchy: TraitHierarchy): RuleLintResult {
+    this.errors = [];
+    this.warnings = [];
+    // Variant folders (Clothes/Hoodie/{Human,Robot} with Clothes varied by Body) are traits themselves
+    this.variantNames = new Map(Object.entries(this.config.variant_by || {})
+      .filter(([, variantBy]) => hierarchy[variantBy])
+      .map(([traitType, variantBy]) => [traitType, collectLeafNames(hierarchy[variantBy]!)]));
+    this.traitsByType = new Map(
+      Object.entries(hierarchy).map(([traitType, traits]) => [traitType, this.collectLeafNames(traits, this.variantNames.get(traitType) || null)])
+    );
+
+    this.tags = new Map();
+    Object.entries(hierarchy).forEach(([traitType, traits]) => this.collectTags(traitType, traits, [], this.variantNames.get(traitType) || null));
+
+    this.lintOptionalLayers();
+    this.lintTraitTags();
+    this.lintProcessingOrder();
+    this.lintRenderOrder();
+    this.lintRenderParts(hierarchy);
+    this.lintVariantLayers(hierarchy);
+    this.lintIncompatibleTraits();
+    this.lintForcedPairings();
+    this.lintDependentTraits();
+    this.lintExclusiveGroups();
+    this.lintConditionalRarity();
+    this.lintRules(hierarchy);
+    this.lintTraitQuotas();
+    this.lintRarityTiers(hierarchy);
+    this.lintDependencyCycles();
+    this.lintUniqueness();
+
+    const result = {
+      isValid: this.errors.length === 0,
+      errors: [...this.errors],
+      warnings: [...this.warnings]
+    };
+
+    logger.info('Rule lint completed', {
+      isValid: result.isValid,
+      errorCount: result.errors.length,
+      warningCount: result.warnings.length
+    });
+
+    return result;
+  }
+
+  private collectLeafNames(traits: TraitHierarchy[string], variantNames: Set<string> | null, names: Set<string> = new Set()): Set<string> {
+    for (const [name, trait] of Object.entries(traits)) {
+      if (trait.subTraits && !(variantNames && isVariantFolder(trait, variantNames))) {
+        // parseTraitType stores nested traits directly under subTraits (name -> trait)
+        this.collectLeafNames(trait.subTraits as unknown as TraitHierarchy[string], variantNames, names);
+      } else {
+        names.add(this.cleanName(name));
+      }
+    }
+    return names;
+  }
+
+  private cleanName(name: string): string {
+    return cleanTraitName(name);
+  }
+
+  // Mirrors TraitSelector: trait.json tags (inherited from categories) plus the category folder names
+  private collectTags(traitType: string, traits: TraitHierarchy[string], inherited: string[], variantNames: Set<string> | null): void {
+    for (const [name, trait] of Object.entries(traits)) {
+      const tags = [...inherited, ...(trait.manifest?.tags || [])];
+      if (trait.subTraits && !(variantNames && isVariantFolder(trait, variantNames))) {
+        this.collectTags(traitType, trait.subTraits as unknown as TraitHierarchy[string], [...tags, name], variantNames);
+      } else {
+        tags.forEach(tag => this.addTag(tag, `${traitType}:${this.cleanName(name)}`));
+      }
+    }
+  }
+
+  private addTag(tag: string, traitKey: string): void {
+    if (!this.tags.has(tag)) this.tags.set(tag, new Set());
+    this.tags.get(tag)!.add(traitKey);
+  }
+
+  /**
+   * Resolves a rule key to the 'Type:Name' keys of the traits it matches, reporting unknown
+   * types, unknown names, unknown tags and name-only keys that match traits of several types.
+   * Pass a null section to resolve without reporting.
+   */
+  private resolveKey(key: string, section: string | null): string[] {
+    const report = (issues: string[], message: string) => {
+      if (section !== null) issues.push(`${section}: ${message}`);
+    };
+
+    const atom = parseRuleAtom(key);
+    if (atom.traitType !== null && !this.traitsByType.has(atom.traitType)) {
+      report(this.errors, `"${key}" uses unknown trait type "${atom.traitType}"`);
+      return [];
+    }
+    const types = atom.traitType === null ? [...this.traitsByType.keys()] : [atom.traitType];
+
+    if (atom.tag !== null) {
+      const tagged = this.tags.get(atom.tag);
+      if (!tagged) {
+        report(this.errors, `"${key}" uses unknown tag "#${atom.tag}"`);
+        return [];
+      }
+      const matches = [...tagged].filter(traitKey => types.some(traitType => traitKey.startsWith(`${traitType}:`)));
+      if (matches.length === 0) {
+        report(this.errors, `"${key}" does not match any trait`);
+      }
+      return matches;
+    }
+
+    const matches = types.flatMap(traitType => [...this.traitsByType.get(traitType)!]
+      .filter(name => atom.matcher.test(name))
+      .map(name => `${traitType}:${name}`));
+    const wildcard = atom.pattern.includes('*');
+
+    if (matches.length === 0) {
+      report(this.errors, atom.traitType !== null && !wildcard
+        ? `"${key}" does not match any "${atom.traitType}" trait`
+        : `"${key}" does not match any trait`);
+    } else if (atom.traitType === null && !wildcard && matches.length > 1) {
+      report(this.warnings, `"${key}" is ambiguous and matches ${matches.join(', ')}; use a Type:Name key`);
+    }
+    return matches;
+  }
+
+  private lintProcessingOrder(): void {
+    for (const traitType of this.config.trait_processing_order) {
+      if (!this.traitsByType.has(traitType)) {
+        this.errors.push(`trait_processing_order: unknown trait type "${traitType}"`);
+      }
+    }
+    for (const traitType of this.traitsByType.keys()) {
+      if (!this.config.trait_processing_order.includes(traitType)) {
+        this.warnings.push(`trait_processing_order: layer "${traitType}" is never selected`);
+      }
+    }
+  }
+
+  private lintRenderOrder(): void {
+    for (const traitType of this.config.render_order || []) {
+      if (!this.traitsByType.has(traitType)) {
+        this.errors.push(`render_order: unknown trait type "${traitType}"`);
+      }
+    }
+    for (const key of Object.keys(this.config.z_index || {})) {
+      this.resolveKey(key, 'z_index');
+    }
+    for (const key of Object.keys(this.config.blending || {})) {
+      this.resolveKey(key, 'blending');
+    }
+  }
+
+  private lintRenderParts(hierarchy: TraitHierarchy): void {
+    const collectParts = (traits: TraitHierarchy[string], names: Set<string>): Set<string> => {
+      for (const trait of Object.values(traits)) {
+        Object.keys(trait.parts || {}).forEach(part => names.add(part));
+        if (trait.subTraits) collectParts(trait.subTraits as unknown as TraitHierarchy[string], names);
+      }
+      return names;
+    };
+
+    for (const [traitType, parts] of Object.entries(this.config.render_parts || {})) {
+      const traits = hierarchy[traitType];
+      if (!traits) {
+        this.errors.push(`render_parts: unknown trait type "${traitType}"`);
+        continue;
+      }
+      const found = collectParts(traits, new Set());
+      Object.keys(parts)
+        .filter(part => !found.has(part))
+        .forEach(part => this.warnings.push(`render_parts["${traitType}"]: no "${traitType}" trait has a "${part}" part`));
+    }
+  }
+
+  private lintVariantLayers(hierarchy: TraitHierarchy): void {
+    const variantBy = this.config.variant_by || {};
+
+    for (const [traitType, ownerType] of Object.entries(variantBy)) {
+      const section = `variant_by["${traitType}"]`;
+      if (!hierarchy[traitType]) {
+        this.errors.push(`variant_by: unknown trait type "${traitType}"`);
+        continue;
+      }
+      if (!hierarchy[ownerType]) {
+        this.errors.push(`${section}: unknown trait type "${ownerType}"`);
+        continue;
+      }
+      if (ownerType === traitType || variantBy[ownerType]) {
+        this.errors.push(`${section}: "${ownerType}" can't pick variants, it is ${ownerType === traitType ? 'the same layer' : 'a variant layer itself'}`);
+        continue;
+      }
+
+      const ownerNames = collectLeafNames(hierarchy[ownerType]!);
+      const visit = (traits: TraitHierarchy[string]) => {
+        for (const [name, trait] of Object.entries(traits)) {
+          if (!trait.subTraits) continue;
+          const subTraits = trait.subTraits as unknown as TraitHierarchy[string];
+          if (!isVariantFolder(trait, ownerNames)) {
+            visit(subTraits);
+            continue;
+          }
+          const variantNames = new Set(Object.keys(subTraits).map(cleanTraitName));
+          const missing = [...ownerNames].filter(ownerName => !variantNames.has(ownerName));
+          if (missing.length > 0) {
+            this.warnings.push(`${section}: "${traitType}:${this.cleanName(name)}" has no variant for ${missing.map(ownerName => `${ownerType}:${ownerName}`).join(', ')}, so it is never selected with them`);
+          }
+        }
+      };
+      visit(hierarchy[traitType]!);
+    }
+  }
+
+  // Rules may reference an optional layer's empty slot by its label ('None' by default)
+  private lintOptionalLayers(): void {
+    for (const [traitType, optional] of Object.entries(this.config.optional_layers || {})) {
+      const names = this.traitsByType.get(traitType);
+      if (!names) {
+        this.errors.push(`optional_layers: unknown trait type "${traitType}"`);
+        continue;
+      }
+      const noneName = optional.none_label || 'None';
+      if (names.has(noneName)) {
+        this.warnings.push(`optional_layers: "${traitType}" already has a trait named "${noneName}"; set a different none_label`);
+      }
+      names.add(noneName);
+    }
+  }
+
+  private lintIncompatibleTraits(): void {
+    for (const [trigger, targets] of Object.entries(this.config.incompatible_traits || {})) {
+      this.resolveKey(trigger, 'incompatible_traits');
+      targets.forEach(target => this.resolveKey(target, `incompatible_traits["${trigger}"]`));
+    }
+  }
+
+  private lintForcedPairings(): void {
+    for (const [trigger, targets] of Object.entries(this.config.forced_pairings || {})) {
+      const triggerKeys = this.resolveKey(trigger, 'forced_pairings');
+      for (const target of targets) {
+        const targetKeys = this.resolveKey(target, `forced_pairings["${trigger}"]`);
+        for (const triggerKey of triggerKeys) {
+          for (const targetKey of targetKeys) {
+            if (this.areIncompatible(triggerKey, targetKey)) {
+              this.errors.push(`forced_pairings: "${trigger}" forces "${target}", but incompatible_traits forbids that pair`);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  private lintDependentTraits(): void {
+    for (const [trigger, dependent] of Object.entries(this.config.dependent_traits || {})) {
+      const triggerKeys = this.resolveKey(trigger, 'dependent_traits');
+      const dependentKeys = this.resolveKey(dependent, `dependent_traits["${trigger}"]`);
+      for (const triggerKey of triggerKeys) {
+        for (const dependentKey of dependentKeys) {
+          if (this.areIncompatible(triggerKey, dependentKey)) {
+            this.errors.push(`dependent_traits: "${trigger}" requires "${dependent}", but incompatible_traits forbids that pair`);
+          }
+        }
+      }
+    }
+  }
+
+  private lintExclusiveGroups(): void {
+    for (const [group, members] of Object.entries(this.config.exclusive_groups || {})) {
+      // The trait types a group lists are the layers it applies to
+      if (!members.some(member => this.traitsByType.has(member))) {
+        this.warnings.push(`exclusive_groups["${group}"]: lists no trait types, so it never applies`);
+      }
+      for (const member of members) {
+        if (this.traitsByType.has(member)) continue;
+        this.resolveKey(member, `exclusive_groups["${group}"]`);
+      }
+    }
+  }
+
+  private lintConditionalRarity(): void {
+    const min = VALIDATION_RULES.MIN_CONDITIONAL_WEIGHT;
+    const max = VALIDATION_RULES.MAX_CONDITIONAL_WEIGHT;
+
+    for (const [condition, adjustments] of Object.entries(this.config.conditional_rarity || {})) {
+      this.resolveKey(condition, 'conditional_rarity');
+      for (const [target, weight] of Object.entries(adjustments)) {
+        this.resolveKey(target, `conditional_rarity["${condition}"]`);
+        if (typeof weight !== 'number' || Number.isNaN(weight) || weight < min || weight > max) {
+          this.errors.push(`conditional_rarity["${condition}"]: weight ${weight} for "${target}" is outside ${min}-${max}`);
+        }
+      }
+    }
+  }
+
+  // Config rules, then the rules of every trait.json in the hierarchy
+  private lintRules(hierarchy: TraitHierarchy): void {
+    this.lintRuleList(this.config.rules || [], 'rules');
+
+    const visit = (traits: TraitHierarchy[string], folder: string) => {
+      for (const [name, trait] of Object.entries(traits)) {
+        if (trait.manifest?.rules) {
+          this.lintRuleList(trait.manifest.rules, `${folder}/${name} trait.json rules`);
+        }
+        if (trait.subTraits) {
+          visit(trait.subTraits as unknown as TraitHierarchy[string], `${folder}/${name}`);
+        }
+      }
+    };
+    Object.entries(hierarchy).forEach(([traitType, traits]) => visit(traits, traitType));
+  }
+
+  private lintRuleList(rules: TraitRule[], prefix: string): void {
+    rules.forEach((rule, index) => {
+      for (const field of ['if', 'require', 'forbid'] as const) {
+        const expression = rule[field];
+        if (!expression) continue;
+        const section = `${prefix}[${index}].${field}`;
+        try {
+          collectAtoms(parseRuleExpression(expression, section)).forEach(atom => this.resolveKey(atom.key, section));
+        } catch (error) {
+          this.errors.push(error instanceof Error ? error.message : String(error));
+        }
+      }
+      for (const key of Object.keys(rule.reweight || {})) {
+        this.resolveKey(key, `${prefix}[${index}].reweight`);
+      }
+    });
+  }
+
+  // Config tags extend the tags found in the layers, so they are resolved before any rule
+  private lintTraitTags(): void {
+    for (const [tag, keys] of Object.entries(this.config.trait_tags || {})) {
+      for (const key of keys) {
+        this.resolveKey(key, `trait_tags["${tag}"]`).forEach(traitKey => this.addTag(tag, traitKey));
+      }
+    }
+  }
+
+  // Mirrors TraitSelector: a rarity_tiers entry wins over trait.json; traits without a tier are never selected
+  private lintRarityTiers(hierarchy: TraitHierarchy): void {
+    for (const [traitType, tiers] of Object.entries(this.config.rarity_tiers || {})) {
+      const section = `rarity_tiers["${traitType}"]`;
+      if (!hierarchy[traitType]) {
+        this.errors.push(`rarity_tiers: unknown trait type "${traitType}"`);
+        continue;
+      }
+
+      const configured = new Map<string, string>();
+      for (const [tier, keys] of Object.entries(tiers.traits || {})) {
+        if (tiers.weights[tier] === undefined) {
+          this.errors.push(`${section}.traits: tier "${tier}" has no weight`);
+        }
+        for (const key of keys) {
+          this.resolveKey(key, `${section}.traits["${tier}"]`)
+            .filter(traitKey => !configured.has(traitKey))
+            .forEach(traitKey => configured.set(traitKey, tier));
+        }
+      }
+
+      const variantNames = this.variantNames.get(traitType) || null;
+      const untiered: string[] = [];
+      const visit = (traits: TraitHierarchy[string], inherited: string | undefined) => {
+        for (const [name, trait] of Object.entries(traits)) {
+          const manifestTier = trait.manifest?.tier ?? inherited;
+          if (trait.subTraits && !(variantNames && isVariantFolder(trait, variantNames))) {
+            visit(trait.subTraits as unknown as TraitHierarchy[string], manifestTier);
+            continue;
+          }
+          const traitKey = `${traitType}:${this.cleanName(name)}`;
+          const tier = configured.get(traitKey) ?? manifestTier;
+          if (tier === undefined) {
+            untiered.push(traitKey);
+          } else if (tiers.weights[tier] === undefined) {
+            this.errors.push(`${section}: "${traitKey}" is in tier "${tier}", which has no weight`);
+          }
+        }
+      };
+      visit(hierarchy[traitType]!, undefined);
+
+      if (untiered.length > 0) {
+        this.errors.push(`${section}: ${untiered.map(traitKey => `"${traitKey}"`).join(', ')} ${untiered.length === 1 ? 'has' : 'have'} no tier and would never be selected`);
+      }
+    }
+  }
+
+  private lintTraitQuotas(): void {
+    for (const key of Object.keys(this.config.trait_quotas || {})) {
+      this.resolveKey(key, 'trait_quotas');
+    }
+  }
+
+  // Forced pairings and dependent traits form a "requires" graph; a cycle means traits that can only appear together
+  private lintDependencyCycles(): void {
+    const edges = new Map<string, Set<string>>();
+    const addEdge = (from: string, to: string) => {
+      if (!edges.has(from)) edges.set(from, new Set());
+      edges.get(from)!.add(to);
+    };
+
+    // Resolve quietly: unknown keys were already reported above
+    for (const [trigger, targets] of Object.entries(this.config.forced_pairings || {})) {
+      for (const from of this.resolveKey(trigger, null)) {
+        targets.forEach(target => this.resolveKey(target, null).forEach(to => addEdge(from, to)));
+      }
+    }
+    for (const [trigger, dependent] of Object.entries(this.config.dependent_traits || {})) {
+      for (const from of this.resolveKey(trigger, null)) {
+        this.resolveKey(dependent, null).forEach(to => addEdge(from, to));
+      }
+    }
+
+    const visiting = new Set<string>();
+    const visited = new Set<string>();
+    const reported = new Set<string>();
+
+    const visit = (node: string, trail: string[]) => {
+      if (visiting.has(node)) {
+        const cycle = [...trail.slice(trail.indexOf(node)), node];
+        const signature = [...cycle.slice(0, -1)].sort().join('|');
+        if (!reported.has(signature)) {
+          reported.add(signature);
+          this.errors.push(`dependency cycle: ${cycle.join(' -> ')}`);
+        }
+        return;
+      }
+      if (visited.has(node)) return;
+
+      visiting.add(node);
+      for (const next of edges.get(node) || []) {
+        visit(next, [...trail, node]);
+      }
+      visiting.delete(node);
+      visited.add(node);
+    };
+
+    for (const node of edges.keys()) {
+      visit(node, []);
+    }
+  }
+
+  private lintUniqueness(): void {
+    const uniqueness = this.config.uniqueness;
+    if (!uniqueness) return;
+
+    const ignored = uniqueness.ignore_types || [];
+    ignored
+      .filter(traitType => !this.traitsByType.has(traitType))
+      .forEach(traitType => this.errors.push(`uniqueness.ignore_types: unknown trait type "${traitType}"`));
+
+    const counted = this.config.trait_processing_order.filter(traitType => !ignored.includes(traitType)).length;
+    if (uniqueness.min_distance > counted) {
+      this.errors.push(`uniqueness.min_distance: ${uniqueness.min_distance} is more than the ${counted} counted trait types, so only one token could be generated`);
+    }
+  }
+
+  // Whether any incompatible_traits entry forbids two 'Type:Name' keys together, in either direction
+  private areIncompatible(a: string, b: string): boolean {
+    return Object.entries(this.config.incompatible_traits || {}).some(([trigger, targets]) => {
+      const triggerKeys = this.resolveKey(trigger, null);
+      const targetKeys = targets.flatMap(target => this.resolveKey(target, null));
+      return (triggerKeys.includes(a) && targetKeys.includes(b)) || (triggerKeys.includes(b) && targetKeys.includes(a));
+    });
+  }
+}
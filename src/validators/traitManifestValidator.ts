@@ -0,0 +1,105 @@
+import Joi from 'joi';
+import { FrameTimingManifest, SpriteSheetManifest, TraitManifest } from '../types/traits';
+import { VALIDATION_RULES } from '../constants/validation';
+import { traitRuleSchema } from './configValidator';
+
+const sheetRect = Joi.object({
+  x: Joi.number().integer().min(0).required(),
+  y: Joi.number().integer().min(0).required(),
+  w: Joi.number().integer().min(1).required(),
+  h: Joi.number().integer().min(1).required()
+}).unknown(true);
+
+// Atlas frames come from other tools, so keys this generator doesn't use (pivot, ...) are allowed
+const sheetAtlasFrame = Joi.object({
+  filename: Joi.string().optional(),
+  frame: sheetRect.required(),
+  rotated: Joi.boolean().optional(),
+  trimmed: Joi.boolean().optional(),
+  spriteSourceSize: sheetRect.optional(),
+  sourceSize: Joi.object({ w: Joi.number().integer().min(1).required(), h: Joi.number().integer().min(1).required() }).unknown(true).optional(),
+  duration: Joi.number().integer().min(1).optional()
+}).unknown(true);
+
+/**
+ * Validates the optional trait.json of a trait folder, and the timing.json and sheet.json next to
+ * its frames. Unlike the generator config, unknown keys are reported rather than stripped, so a
+ * misspelt field doesn't silently do nothing.
+ */
+export class TraitManifestValidator {
+  private schema: Joi.ObjectSchema;
+  private timingSchema = Joi.object({
+    default: Joi.number().integer().min(1).optional(),
+    frames: Joi.object().pattern(Joi.string(), Joi.number().integer().min(1)).optional()
+  });
+  private sheetSchema = Joi.object({
+    frames: Joi.alternatives(
+      Joi.array().items(sheetAtlasFrame).min(1),
+      Joi.object().pattern(Joi.string(), sheetAtlasFrame).min(1)
+    ),
+    grid: Joi.object({
+      columns: Joi.number().integer().min(1).optional(),
+      rows: Joi.number().integer().min(1).optional(),
+      frame_width: Joi.number().integer().min(1).optional(),
+      frame_height: Joi.number().integer().min(1).optional(),
+      count: Joi.number().integer().min(1).optional(),
+      duration: Joi.number().integer().min(1).optional()
+    }),
+    // Export settings of the atlas tool (image name, size, tags); not used
+    meta: Joi.any()
+  }).xor('frames', 'grid');
+
+  constructor() {
+    this.schema = Joi.object({
+      weight: Joi.number().integer().min(VALIDATION_RULES.MIN_WEIGHT).max(VALIDATION_RULES.MAX_WEIGHT).optional(),
+      display_name: Joi.string().min(1).optional(),
+      description: Joi.string().allow('').optional(),
+      tags: Joi.array().items(Joi.string().min(1)).unique().optional(),
+      metadata_value: Joi.string().min(1).optional(),
+      tier: Joi.string().min(1).optional(),
+      rules: Joi.array().items(traitRuleSchema).optional(),
+      render: Joi.object({
+        upscaling: Joi.string().valid('nearest_neighbour', 'smooth').optional(),
+        z_index: Joi.number().optional(),
+        parts: Joi.object().pattern(Joi.string().min(1), Joi.number()).optional(),
+        blend: Joi.string().valid(...VALIDATION_RULES.BLEND_MODES).optional(),
+        opacity: Joi.number().min(0).max(1).optional(),
+        position: Joi.object({
+          anchor: Joi.string().valid(...VALIDATION_RULES.LAYER_ANCHORS).default('top-left'),
+          x: Joi.number().default(0),
+          y: Joi.number().default(0),
+          width: Joi.number().integer().min(1).optional(),
+          height: Joi.number().integer().min(1).optional()
+        }).optional()
+      }).optional()
+    });
+  }
+
+  // Returns the manifest, or null with the problems found in it
+  validate(manifest: unknown): { manifest: TraitManifest | null; errors: string[] } {
+    const { error, value } = this.schema.validate(manifest, { abortEarly: false });
+
+    if (error) {
+      return { manifest: null, errors: error.details.map(detail => detail.message) };
+    }
+    return { manifest: value as TraitManifest, errors: [] };
+  }
+
+  validateTiming(timing: unknown): { timing: FrameTimingManifest | null; errors: string[] } {
+    const { error, value } = this.timingSchema.validate(timing, { abortEarly: false });
+
+    if (error) {
+      return { timing: null, errors: error.details.map(detail => detail.message) };
+    }
+    return { timing: value as FrameTimingManifest, errors: [] };
+  }
+
+  validateSheet(sheet: unknown): { sheet: SpriteSheetManifest | null; errors: string[] } {
+    const { error, value } = this.sheetSchema.validate(sheet, { abortEarly: false });
+
+    if (error) {
+      return { sheet: null, errors: error.details.map(detail => detail.message) };
+    }
+    return { sheet: value as SpriteSheetManifest, errors: [] };
+  }
+}
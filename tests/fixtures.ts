@@ -0,0 +1,8 @@
+import { ConfigValidator } from '../src/validators/configValidator';
+import { GeneratorConfig } from '../src/types/config';
+
+export const createConfig = (overrides: Partial<GeneratorConfig> = {}): GeneratorConfig => ({
+  ...new ConfigValidator().createDefaultConfig(),
+  trait_processing_order: ['Body', 'Hat', 'Eyes'],
+  ...overrides
+});
@@ -0,0 +1,222 @@
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import fs from 'fs-extra';
+import sharp from 'sharp';
+import { AnimatedSourceCache, isAnimatedPng } from '../../src/core/AnimatedSourceCache';
+import { LayerProcessor } from '../../src/core/LayerProcessor';
+
+interface TestFrame {
+  colour: [number, number, number, number];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  delay: number;
+  dispose?: number;
+  blend?: number;
+}
+
+const chunk = (type: string, data: Buffer): Buffer => {
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(zlib.crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+const uint32 = (...values: number[]): Buffer => {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => buffer.writeUInt32BE(value, i * 4));
+  return buffer;
+};
+
+// Solid-colour frames packed into an APNG, delays in ms
+const encodeApng = async (width: number, height: number, frames: TestFrame[]): Promise<Buffer> => {
+  const signature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const output: Buffer[] = [signature];
+  let sequence = 0;
+
+  for (const [i, frame] of frames.entries()) {
+    const [r, g, b, alpha] = frame.colour;
+    const png = await sharp({ create: { width: frame.width, height: frame.height, channels: 4, background: { r, g, b, alpha: alpha / 255 } } })
+      .png()
+      .toBuffer();
+    let header = Buffer.alloc(0);
+    const data: Buffer[] = [];
+    for (let offset = 8; offset < png.length;) {
+      const length = png.readUInt32BE(offset);
+      const type = png.toString('ascii', offset + 4, offset + 8);
+      if (type === 'IHDR') header = Buffer.from(png.subarray(offset + 8, offset + 8 + length));
+      if (type === 'IDAT') data.push(png.subarray(offset + 8, offset + 8 + length));
+      offset += length + 12;
+    }
+
+    if (i === 0) {
+      header.writeUInt32BE(width, 0);
+      header.writeUInt32BE(height, 4);
+      output.push(chunk('IHDR', header), chunk('acTL', uint32(frames.length, 0)));
+    }
+    const control = Buffer.alloc(26);
+    uint32(sequence++, frame.width, frame.height, frame.x, frame.y).copy(control);
+    control.writeUInt16BE(frame.delay, 20);
+    control.writeUInt16BE(1000, 22);
+    control.writeUInt8(frame.dispose ?? 0, 24);
+    control.writeUInt8(frame.blend ?? 0, 25);
+    output.push(chunk('fcTL', control));
+    output.push(i === 0 ? chunk('IDAT', Buffer.concat(data)) : chunk('fdAT', Buffer.concat([uint32(sequence++), ...data])));
+  }
+
+  output.push(chunk('IEND', Buffer.alloc(0)));
+  return Buffer.concat(output);
+};
+
+// Sheet of pixels given as [x, y, r, g, b] on a transparent background
+const encodeSheet = (width: number, height: number, pixels: number[][]): Promise<Buffer> => {
+  const data = Buffer.alloc(width * height * 4);
+  for (const [x, y, r, g, b] of pixels) {
+    data.set([r!, g!, b!, 255], (y! * width + x!) * 4);
+  }
+  return sharp(data, { raw: { width, height, channels: 4 } }).png().toBuffer();
+};
+
+describe('AnimatedSourceCache', () => {
+  let workDir: string;
+
+  const pixel = async (file: string, x: number, y: number): Promise<number[]> => {
+    const { data, info } = await sharp(file).raw().toBuffer({ resolveWithObject: true });
+    const offset = (y * info.width + x) * info.channels;
+    return [...data.subarray(offset, offset + 4)];
+  };
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'animated-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  it('should expand an APNG into full frames with its disposal, blending and delays', async () => {
+    const source = path.join(workDir, 'glow.png');
+    await fs.writeFile(source, await encodeApng(4, 4, [
+      { colour: [255, 0, 0, 255], x: 0, y: 0, width: 4, height: 4, delay: 100 },
+      { colour: [0, 0, 255, 128], x: 1, y: 1, width: 2, height: 2, delay: 200, dispose: 2, blend: 1 },
+      { colour: [0, 255, 0, 255], x: 0, y: 0, width: 1, height: 1, delay: 50 }
+    ]));
+    const cache = new AnimatedSourceCache(path.join(workDir, 'cache'));
+
+    const expanded = await cache.expand(source);
+    expect(expanded).toMatchObject({ frames: ['frame_001.png', 'frame_002.png', 'frame_003.png'], durations: [100, 200, 50], width: 4, height: 4 });
+    const frame = (name: string) => path.join(expanded.dir, name);
+
+    expect(await pixel(frame('frame_001.png'), 1, 1)).toEqual([255, 0, 0, 255]);
+    expect(await pixel(frame('frame_002.png'), 1, 1)).toEqual([127, 0, 128, 255]);
+    expect(await pixel(frame('frame_002.png'), 0, 0)).toEqual([255, 0, 0, 255]);
+    // The blue square is disposed back to the first frame before the green pixel is drawn
+    expect(await pixel(frame('frame_003.png'), 1, 1)).toEqual([255, 0, 0, 255]);
+    expect(await pixel(frame('frame_003.png'), 0, 0)).toEqual([0, 255, 0, 255]);
+
+    await fs.remove(frame('frame_001.png'));
+    expect((await cache.expand(source)).dir).toBe(expanded.dir);
+    expect(await fs.pathExists(frame('frame_001.png'))).toBe(false);
+  });
+
+  it('should tell APNGs from still PNGs by their chunk headers', async () => {
+    const file = (name: string) => path.join(workDir, name);
+    await fs.writeFile(file('animated.png'), await encodeApng(2, 2, [
+      { colour: [255, 0, 0, 255], x: 0, y: 0, width: 2, height: 2, delay: 100 },
+      { colour: [0, 255, 0, 255], x: 0, y: 0, width: 2, height: 2, delay: 100 }
+    ]));
+    await fs.writeFile(file('still.png'), await encodeSheet(2, 2, []));
+    await fs.writeFile(file('empty.png'), '');
+
+    expect(await isAnimatedPng(file('animated.png'))).toBe(true);
+    expect(await isAnimatedPng(file('still.png'))).toBe(false);
+    expect(await isAnimatedPng(file('empty.png'))).toBe(false);
+  });
+
+  it('should slice sprite sheets by grid, or as one row of square frames', async () => {
+    const sheet = path.join(workDir, 'sheet.png');
+    await fs.writeFile(sheet, await encodeSheet(6, 4, [[0, 0, 255, 0, 0], [2, 0, 0, 255, 0], [4, 0, 0, 0, 255], [0, 2, 9, 9, 9]]));
+    const cache = new AnimatedSourceCache(path.join(workDir, 'cache'));
+
+    const grid = await cache.slice(sheet, { grid: { columns: 3, rows: 2, count: 4, duration: 80 } });
+    expect(grid).toMatchObject({ frames: ['frame_001.png', 'frame_002.png', 'frame_003.png', 'frame_004.png'], durations: [80, 80, 80, 80], width: 2, height: 2 });
+    expect(await pixel(path.join(grid.dir, 'frame_003.png'), 0, 0)).toEqual([0, 0, 255, 255]);
+    expect(await pixel(path.join(grid.dir, 'frame_004.png'), 0, 0)).toEqual([9, 9, 9, 255]);
+
+    expect(await cache.slice(sheet, { grid: { frame_width: 4 } })).toMatchObject({ width: 4, height: 4, durations: [0] });
+    await expect(cache.slice(sheet, null)).rejects.toThrow("sheet.png (6x4) doesn't divide into a grid of 1 equal frames");
+
+    const strip = path.join(workDir, 'strip', 'sheet.png');
+    await fs.outputFile(strip, await encodeSheet(6, 2, [[4, 1, 0, 0, 255]]));
+    const sliced = await cache.slice(strip, null);
+    expect(sliced).toMatchObject({ width: 2, height: 2, durations: [0, 0, 0] });
+    expect(await pixel(path.join(sliced.dir, 'frame_003.png'), 0, 1)).toEqual([0, 0, 255, 255]);
+  });
+
+  it('should slice sprite sheets by their atlas, untrimming and unrotating frames', async () => {
+    const layersDir = path.join(workDir, 'layers');
+    const sparkDir = path.join(layersDir, 'Effect', 'Spark');
+    await fs.ensureDir(sparkDir);
+    // A 2x2 frame, a 2x1 sprite stored rotated as 1x2, and a trimmed 1x1 sprite
+    await fs.writeFile(path.join(sparkDir, 'sheet.png'), await encodeSheet(6, 2, [
+      [0, 0, 255, 0, 0], [1, 0, 255, 0, 0], [0, 1, 255, 0, 0], [1, 1, 255, 0, 0],
+      [2, 0, 0, 0, 255], [2, 1, 255, 255, 255],
+      [4, 0, 0, 255, 0]
+    ]));
+    await fs.writeJson(path.join(sparkDir, 'sheet.json'), {
+      frames: {
+        'spark 2.aseprite': { frame: { x: 4, y: 0, w: 1, h: 1 }, trimmed: true, spriteSourceSize: { x: 1, y: 1, w: 1, h: 1 }, sourceSize: { w: 2, h: 2 }, duration: 300 },
+        'spark 0.aseprite': { frame: { x: 0, y: 0, w: 2, h: 2 }, sourceSize: { w: 2, h: 2 }, duration: 100 },
+        'spark 1.aseprite': { frame: { x: 2, y: 0, w: 2, h: 1 }, rotated: true, trimmed: true, spriteSourceSize: { x: 0, y: 1, w: 2, h: 1 }, sourceSize: { w: 2, h: 2 } }
+      },
+      meta: { app: 'https://www.aseprite.org/', image: 'sheet.png' }
+    });
+
+    const processor = new LayerProcessor(layersDir, 1, {}, 'lcm', path.join(workDir, 'cache'));
+    expect((await processor.validateStructure()).errors).toEqual([]);
+    const [spark] = await processor.getAvailableTraits('Effect');
+    const frame = (name: string) => path.join(spark!.path, name);
+
+    expect(spark!.frames).toEqual(['frame_001.png', 'frame_002.png', 'frame_003.png']);
+    expect(spark!.timing).toEqual({ 'frame_001.png': 300, 'frame_002.png': 100 });
+    expect(await pixel(frame('frame_001.png'), 1, 1)).toEqual([0, 255, 0, 255]);
+    expect(await pixel(frame('frame_001.png'), 0, 0)).toEqual([0, 0, 0, 0]);
+    expect(await pixel(frame('frame_002.png'), 1, 0)).toEqual([255, 0, 0, 255]);
+    expect(await pixel(frame('frame_003.png'), 0, 1)).toEqual([0, 0, 255, 255]);
+    expect(await pixel(frame('frame_003.png'), 1, 1)).toEqual([255, 255, 255, 255]);
+    expect(await pixel(frame('frame_003.png'), 0, 0)).toEqual([0, 0, 0, 0]);
+
+    await fs.writeJson(path.join(sparkDir, 'sheet.json'), { grid: { columns: 3 }, frames: [] });
+    expect((await new LayerProcessor(layersDir, 1, {}, 'lcm', path.join(workDir, 'cache')).validateStructure()).errors).toContain(
+      'Invalid sheet.json in Spark: "value" contains a conflict between exclusive peers [frames, grid]'
+    );
+  });
+
+  it('should load an animated leaf through LayerProcessor, with timing.json overrides', async () => {
+    const layersDir = path.join(workDir, 'layers');
+    const blinkDir = path.join(layersDir, 'Eyes', 'Blink');
+    await fs.ensureDir(blinkDir);
+    await fs.writeFile(path.join(blinkDir, 'blink.png'), await encodeApng(2, 2, [
+      { colour: [0, 0, 0, 255], x: 0, y: 0, width: 2, height: 2, delay: 100 },
+      { colour: [255, 255, 255, 255], x: 0, y: 0, width: 2, height: 2, delay: 40 }
+    ]));
+    await fs.writeJson(path.join(blinkDir, 'timing.json'), { frames: { 'frame_002.png': 500 } });
+
+    const processor = new LayerProcessor(layersDir, 1, {}, 'lcm', path.join(workDir, 'cache'));
+    expect((await processor.validateStructure()).errors).toEqual([]);
+    const [blink] = await processor.getAvailableTraits('Eyes');
+
+    expect(blink!.path.startsWith(path.join(workDir, 'cache'))).toBe(true);
+    expect(blink!.frames).toEqual(['frame_001.png', 'frame_002.png']);
+    expect(blink!.timing).toEqual({ 'frame_001.png': 100, 'frame_002.png': 500 });
+
+    await fs.writeFile(path.join(blinkDir, 'frame_003.png'), '');
+    expect((await new LayerProcessor(layersDir, 1, {}, 'fixed', path.join(workDir, 'cache')).validateStructure()).errors).toContain(
+      'Invalid structure: Blink must contain either PNG frames or a single animated GIF, APNG or WebP (found blink.png among 2 files)'
+    );
+  });
+});
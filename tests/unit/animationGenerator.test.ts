@@ -0,0 +1,185 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import sharp from 'sharp';
+import { AnimationGenerator } from '../../src/core/AnimationGenerator';
+import { createConfig } from '../fixtures';
+import { GeneratorConfig } from '../../src/types/config';
+import { Trait } from '../../src/types/traits';
+
+const trait = (type: string, name: string, extra: Partial<Trait> = {}): Trait => ({
+  type, name, weight: 1, path: '', frames: [], ...extra
+});
+
+describe('AnimationGenerator', () => {
+  const stack = (config: GeneratorConfig, traits: Trait[]): string[] =>
+    new AnimationGenerator(config).getRenderStack(traits).map(t => `${t.type}:${t.name}`);
+
+  const traits = [trait('Body', 'Human'), trait('Hat', 'Cowboy'), trait('Hair', 'Long'), trait('Background', 'Blue')];
+
+  it('should stack layers by render_order, independently of the selection order', () => {
+    const config = createConfig({ render_order: ['Background', 'Body', 'Hair'] });
+
+    expect(stack(config, traits)).toEqual(['Background:Blue', 'Body:Human', 'Hair:Long', 'Hat:Cowboy']);
+  });
+
+  it('should let z_index move single traits between layers', () => {
+    const config = createConfig({
+      render_order: ['Background', 'Body', 'Hair', 'Hat'],
+      z_index: { 'Hair:Long': 3.5, 'Hat:*': 2 }
+    });
+    const manifestDepth = [...traits.slice(0, 3), trait('Background', 'Blue', { render: { z_index: 10 } })];
+
+    expect(stack(config, traits)).toEqual(['Background:Blue', 'Body:Human', 'Hat:Cowboy', 'Hair:Long']);
+    expect(stack(config, manifestDepth)).toEqual(['Body:Human', 'Hat:Cowboy', 'Hair:Long', 'Background:Blue']);
+  });
+
+  it('should composite each part of a split trait at its own depth', () => {
+    const config = createConfig({ render_order: ['Background', 'Body', 'Hair', 'Hat'], render_parts: { Hair: { back: 0.5 } } });
+    const hair = trait('Hair', 'Long', {
+      render: { parts: { back: 5, clasp: 3.5 } },
+      parts: ['front', 'back', 'clasp'].map(name => ({ name, path: `Hair/Long/${name}`, frames: ['frame_001.png'] }))
+    });
+    const pieces = new AnimationGenerator(config).getRenderStack([trait('Body', 'Human'), hair, trait('Hat', 'Cowboy')]);
+
+    expect(pieces.map(t => t.path || t.type)).toEqual(['Hair/Long/back', 'Body', 'Hair/Long/front', 'Hat', 'Hair/Long/clasp']);
+    expect(pieces[0]!.parts).toBeUndefined();
+  });
+
+  it('should align loops of different lengths per token', () => {
+    const frames = (count: number) => Array.from({ length: count }, (_, i) => `frame_${i + 1}.png`);
+    const blink = trait('Eyes', 'Blink', { frames: frames(5) });
+    const tail = trait('Tail', 'Wag', { frames: frames(8) });
+    const body = trait('Body', 'Human', { frames: frames(1) });
+    const withAlignment = (mode: 'lcm' | 'resample', maxFrames = 120) => new AnimationGenerator(createConfig({
+      generation: { ...createConfig({}).generation, frames_per_animation: 12, frame_alignment: { mode, max_frames: maxFrames } }
+    }));
+
+    const lcm = withAlignment('lcm');
+    const timeline = lcm.getTimeline([body, blink, tail]);
+    expect(timeline).toEqual({ frameCount: 40, resample: false });
+    expect([0, 5, 39].map(i => lcm.getFrameFile(blink, i, timeline))).toEqual(['frame_1.png', 'frame_1.png', 'frame_5.png']);
+    expect(lcm.getFrameFile(body, 7, timeline)).toBe('frame_1.png');
+
+    expect(withAlignment('lcm', 30).getTimeline([body, blink, tail])).toEqual({ frameCount: 12, resample: true });
+    const resample = withAlignment('resample');
+    const resampled = resample.getTimeline([blink]);
+    expect(Array.from({ length: 12 }, (_, i) => resample.getFrameFile(blink, i, resampled)!.match(/\d+/)![0]).join(''))
+      .toBe('111223334455');
+  });
+
+  it('should merge per-frame durations into a variable-rate timeline', () => {
+    const config = createConfig({});
+    const generator = new AnimationGenerator({ ...config, generation: { ...config.generation, frame_rate: 10 } });
+    const eyes = trait('Eyes', 'Blink', { frames: ['frame_001.png', 'frame_002.png'], timing: { 'frame_001.png': 450 } });
+    const tail = trait('Tail', 'Wag', { frames: ['frame_1.png', 'frame_2.png', 'frame_3.png'] });
+
+    const timeline = generator.getTimeline([eyes, tail]);
+    expect(timeline).toEqual({
+      frameCount: 7,
+      resample: false,
+      length: 550,
+      starts: [0, 100, 200, 300, 400, 450, 500],
+      durations: [100, 100, 100, 100, 50, 50, 50]
+    });
+    expect([3, 4, 5].map(i => generator.getFrameFile(eyes, i, timeline))).toEqual(['frame_001.png', 'frame_001.png', 'frame_002.png']);
+    expect([0, 3, 5].map(i => generator.getFrameFile(tail, i, timeline))).toEqual(['frame_1.png', 'frame_1.png', 'frame_2.png']);
+  });
+
+  it('should replace the frames an earlier run left in a token folder', async () => {
+    const cwd = process.cwd();
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'frames-'));
+    process.chdir(dir);
+    try {
+      await fs.ensureDir(path.join(dir, 'Body', 'Human'));
+      await sharp({ create: { width: 8, height: 8, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } } })
+        .png().toFile(path.join(dir, 'Body', 'Human', 'frame_001.png'));
+      const tokenDir = path.join(dir, 'output', 'frames', '1');
+      for (const file of ['frame_001.png', 'frame_002.png', 'frame_003.png']) {
+        await fs.outputFile(path.join(tokenDir, file), 'stale');
+      }
+      await fs.outputJson(path.join(tokenDir, 'frame_timing.json'), [100, 100, 100]);
+      const config = createConfig({ generation: { ...createConfig({}).generation, dimensions: { width: 8, height: 8 }, frames_per_animation: 1 } });
+
+      const body = trait('Body', 'Human', { path: path.join(dir, 'Body', 'Human'), frames: ['frame_001.png'] });
+      await new AnimationGenerator(config).generateFramesDirectly([{ id: 1, traits: [body] } as any]);
+
+      expect(await fs.readdir(tokenDir)).toEqual(['frame_001.png']);
+    } finally {
+      process.chdir(cwd);
+      await fs.remove(dir);
+    }
+  });
+
+  it('should let config blending override the trait.json blend mode and opacity', () => {
+    const config = createConfig({ blending: { 'Hat:*': { blend: 'screen' }, '#glow': { opacity: 0.5 } } });
+    const blending = (t: Trait) => new AnimationGenerator(config).getBlending(t);
+
+    expect(blending(trait('Body', 'Human'))).toEqual({ blend: 'over', opacity: 1 });
+    expect(blending(trait('Hat', 'Cowboy', { render: { blend: 'multiply', opacity: 0.8 } }))).toEqual({ blend: 'screen', opacity: 0.8 });
+    expect(blending(trait('Hat', 'Halo', { tags: ['glow'] }))).toEqual({ blend: 'screen', opacity: 0.5 });
+  });
+
+  it('should composite frames with their blend mode and opacity', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'blend-'));
+    const solid = async (name: string, r: number, g: number, b: number) => {
+      await fs.ensureDir(path.join(dir, name));
+      await sharp({ create: { width: 32, height: 32, channels: 4, background: { r, g, b, alpha: 1 } } })
+        .png().toFile(path.join(dir, name, 'frame_001.png'));
+      return { path: path.join(dir, name), frames: ['frame_001.png'] };
+    };
+    const config = createConfig({
+      generation: { ...createConfig({}).generation, dimensions: { width: 32, height: 32 } },
+      trait_processing_order: ['Body', 'Light', 'Shadow']
+    });
+    const combination = (traits: Trait[]): any => ({ id: 1, traits });
+    const pixel = async (traits: Trait[]) => {
+      const file = path.join(dir, 'preview.png');
+      await new AnimationGenerator(config).renderPreview(combination(traits), file);
+      return [...(await sharp(file).raw().toBuffer()).subarray(0, 3)];
+    };
+
+    try {
+      const body = trait('Body', 'Orange', await solid('body', 200, 100, 50));
+      const light = trait('Light', 'Grey', { ...await solid('light', 102, 102, 102), render: { blend: 'multiply' } });
+      const shadow = trait('Shadow', 'Black', { ...await solid('shadow', 0, 0, 0), render: { opacity: 0.5 } });
+
+      expect(await pixel([body, light])).toEqual([80, 40, 20]);
+      const faded = await pixel([body, shadow]);
+      faded.forEach((channel, i) => expect(Math.abs(channel - [100, 50, 25][i]!)).toBeLessThanOrEqual(1));
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+
+  it('should place positioned layers at their scaled native size', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'position-'));
+    const config = createConfig({
+      generation: {
+        ...createConfig({}).generation,
+        dimensions: { width: 32, height: 32 },
+        layout_dimensions: { width: 16, height: 16 }
+      }
+    });
+
+    try {
+      await sharp({ create: { width: 4, height: 4, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } } })
+        .png().toFile(path.join(dir, 'frame_001.png'));
+      const badge = trait('Badge', 'Star', {
+        path: dir,
+        frames: ['frame_001.png'],
+        render: { position: { anchor: 'bottom-right', x: -1, y: -2 } }
+      });
+      const file = path.join(dir, 'preview.png');
+      await new AnimationGenerator(config).renderPreview({ id: 1, traits: [badge] } as any, file);
+
+      const pixels = await sharp(file).raw().toBuffer();
+      const alpha = (x: number, y: number) => pixels[(y * 32 + x) * 4 + 3];
+      // 8x8 after scaling, with its bottom-right corner 2px left of and 4px above the canvas corner
+      expect([alpha(22, 20), alpha(29, 27)]).toEqual([255, 255]);
+      expect([alpha(21, 20), alpha(22, 19), alpha(30, 27), alpha(29, 28)]).toEqual([0, 0, 0, 0]);
+    } finally {
+      await fs.remove(dir);
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { Generator } from '../../src/core/Generator';
+import { ConfigValidator } from '../../src/validators/configValidator';
+import { GeneratorConfig } from '../../src/types/config';
+
+describe('Generator', () => {
+  let configDir: string;
+  let cwd: string;
+
+  const createGenerator = async (overrides: Partial<GeneratorConfig>): Promise<Generator> => {
+    const configPath = path.join(configDir, 'config.json');
+    await fs.writeJson(configPath, { ...new ConfigValidator().createDefaultConfig(), trait_processing_order: ['Body'], ...overrides });
+    return new Generator(configPath);
+  };
+  // Generates `count` tokens into the temp output folder and reads back their metadata in ID order
+  const generate = async (generator: Generator, count: number, seed = 'ids'): Promise<{ id: number; metadata: any }[]> => {
+    await fs.remove(path.join(configDir, 'output'));
+    await generator.validate({ totalCount: count });
+    await generator.generateMetadata({ totalCountOverride: count, seed });
+    const metadataDir = path.join(configDir, 'output', 'metadata', 'ethereum');
+    const ids = (await fs.readdir(metadataDir)).map(file => Number(path.basename(file, '.json'))).sort((a, b) => a - b);
+    return Promise.all(ids.map(async id => ({ id, metadata: await fs.readJson(path.join(metadataDir, `${id}.json`)) })));
+  };
+  const body = (token: { metadata: any }): string =>
+    token.metadata.attributes.find((attribute: any) => attribute.trait_type === 'Body').value;
+
+  beforeEach(async () => {
+    configDir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-'));
+    for (let i = 1; i <= 30; i++) {
+      await fs.outputFile(path.join(configDir, 'layers', 'Body', `Body${i}`, 'frame_001.png'), '');
+    }
+    cwd = process.cwd();
+    process.chdir(configDir);
+  });
+
+  afterEach(async () => {
+    process.chdir(cwd);
+    await fs.remove(configDir);
+  });
+
+  it('should assign IDs from the start offset, skipping reserved ranges', async () => {
+    const generator = await createGenerator({ token_ids: { start: 0, reserved: [{ from: 2, to: 4 }] } });
+
+    const tokens = await generate(generator, 4);
+
+    expect(tokens.map(t => t.id)).toEqual([0, 1, 5, 6]);
+    expect(tokens[2]!.metadata.name).toMatch(/#5$/);
+    expect(tokens[2]!.metadata.image).toMatch(/\/5\.gif$/);
+  });
+
+  it('should shuffle generated tokens over their IDs with the seed', async () => {
+    const run = async (shuffle: boolean) => generate(await createGenerator({ token_ids: { start: 1, shuffle } }), 20, 'a');
+
+    const shuffled = await run(true);
+    const ordered = (await run(false)).map(body);
+
+    expect(shuffled.map(t => t.id)).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+    expect((await run(true)).map(body)).toEqual(shuffled.map(body));
+    expect(shuffled.map(body)).not.toEqual(ordered);
+    expect(shuffled.map(body).sort()).toEqual([...ordered].sort());
+  });
+
+  it('should reject 1/1 token IDs that fall in a reserved range', async () => {
+    const generator = await createGenerator({
+      token_ids: { start: 1, reserved: [{ from: 1, to: 10 }] },
+      one_of_ones: { path: 'one_of_ones', tokens: [{ source: 'king', token_id: 3, attributes: [] }] }
+    });
+
+    const error = await generator.validate({ totalCount: 3 }).catch(e => e);
+    expect(error.context.errors).toContain('1/1 "king" uses token_id 3, reserved or outside the token IDs assigned (11-13)');
+  });
+
+  it('should keep the earlier phases in the collection metadata when extending', async () => {
+    for (const [seed, extend] of [['phase-1', false], ['phase-2', true]] as const) {
+      const generator = await createGenerator({ token_ids: { start: 1 } });
+      await generator.validate({ totalCount: 2, extend });
+      await generator.generateMetadata({ totalCountOverride: 2, seed, extend });
+    }
+
+    const collection = await fs.readJson(path.join(configDir, 'output', 'ethereum_collection_metadata.json'));
+    expect(collection.total_supply).toBe(4);
+    expect(collection.generation.seed).toBe('phase-1');
+    expect(collection.phases.map((phase: any) => [phase.seed, phase.first_token_id])).toEqual([['phase-1', undefined], ['phase-2', 3]]);
+  });
+
+  it('should check 1/1 tokens against the --count override', async () => {
+    const generator = await createGenerator({
+      generation: { ...new ConfigValidator().createDefaultConfig().generation, total_nfts: 100 },
+      token_ids: { start: 1 },
+      one_of_ones: { path: 'one_of_ones', tokens: [{ source: 'king', token_id: 50, attributes: [] }] }
+    });
+
+    const error = await generator.validate({ totalCount: 10 }).catch(e => e);
+    expect(error.context.errors).toContain('1/1 "king" uses token_id 50, outside the token IDs assigned (1-10)');
+  });
+});
@@ -0,0 +1,131 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { LayerProcessor } from '../../src/core/LayerProcessor';
+
+describe('LayerProcessor', () => {
+  let layersDir: string;
+
+  const addTrait = async (folder: string, manifest?: unknown) => {
+    const traitDir = path.join(layersDir, folder);
+    await fs.ensureDir(traitDir);
+    await fs.writeFile(path.join(traitDir, 'frame_001.png'), '');
+    if (manifest !== undefined) {
+      await fs.writeJson(path.join(traitDir, 'trait.json'), manifest);
+    }
+  };
+
+  beforeEach(async () => {
+    layersDir = await fs.mkdtemp(path.join(os.tmpdir(), 'layers-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(layersDir);
+  });
+
+  it('should merge trait.json manifests into the traits', async () => {
+    await addTrait('Hat/Crown(2)/Gold(5)', { weight: 40, display_name: 'Golden Crown', tags: ['shiny'], metadata_value: 'gold_crown' });
+    await addTrait('Hat/Crown(2)/Silver');
+    await fs.writeJson(path.join(layersDir, 'Hat', 'Crown(2)', 'trait.json'), {
+      display_name: 'Royal',
+      tags: ['royal'],
+      rules: [{ forbid: 'Eyes:Laser' }]
+    });
+
+    const processor = new LayerProcessor(layersDir, 1);
+    expect((await processor.validateStructure()).errors).toEqual([]);
+
+    const [gold, silver] = await processor.getAvailableTraits('Hat');
+    expect(gold).toMatchObject({
+      name: 'Gold',
+      weight: 40,
+      displayName: 'Golden Crown',
+      metadataValue: 'gold_crown',
+      tags: ['royal', 'shiny'],
+      rules: [{ forbid: 'Eyes:Laser' }],
+      lineage: [{ name: 'Crown', weight: 2, displayName: 'Royal' }]
+    });
+    expect(silver).toMatchObject({ name: 'Silver', weight: 1, tags: ['royal'] });
+  });
+
+  it('should report invalid trait.json files', async () => {
+    await addTrait('Hat/Cowboy', { weight: 0, colour: 'red' });
+    await addTrait('Hat/Crown');
+    await fs.writeFile(path.join(layersDir, 'Hat', 'Crown', 'trait.json'), '{ not json');
+
+    const result = await new LayerProcessor(layersDir, 1).validateStructure();
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      'Invalid trait.json in Cowboy: "weight" must be greater than or equal to 1',
+      'Invalid trait.json in Cowboy: "colour" is not allowed'
+    ]));
+    expect(result.errors.some(error => error.startsWith('Invalid trait.json in Crown:'))).toBe(true);
+  });
+
+  it('should keep native loop lengths outside the fixed frame alignment', async () => {
+    await addTrait('Eyes/Blink');
+    await fs.writeFile(path.join(layersDir, 'Eyes', 'Blink', 'frame_002.png'), '');
+
+    const fixed = new LayerProcessor(layersDir, 3);
+    await fixed.validateStructure();
+    expect((await fixed.getAvailableTraits('Eyes'))[0]!.frames).toEqual(['frame_001.png', 'frame_002.png', 'frame_001.png']);
+
+    const native = new LayerProcessor(layersDir, 3, {}, 'lcm');
+    await native.validateStructure();
+    expect((await native.getAvailableTraits('Eyes'))[0]!.frames).toEqual(['frame_001.png', 'frame_002.png']);
+  });
+
+  it('should read frame durations from timing.json and @<n>ms file name suffixes', async () => {
+    await addTrait('Eyes/Blink');
+    const blinkDir = path.join(layersDir, 'Eyes', 'Blink');
+    await fs.writeFile(path.join(blinkDir, 'frame_002@80ms.png'), '');
+    await fs.writeFile(path.join(blinkDir, 'frame_010.png'), '');
+    await fs.writeFile(path.join(blinkDir, 'frame_003@2000ms.png'), '');
+    await fs.writeJson(path.join(blinkDir, 'timing.json'), { default: 40, frames: { 'frame_003@2000ms.png': 1500 } });
+
+    const processor = new LayerProcessor(layersDir, 1, {}, 'lcm');
+    expect((await processor.validateStructure()).errors).toEqual([]);
+    const [blink] = await processor.getAvailableTraits('Eyes');
+
+    expect(blink!.frames).toEqual(['frame_001.png', 'frame_002@80ms.png', 'frame_003@2000ms.png', 'frame_010.png']);
+    expect(blink!.timing).toEqual({
+      'frame_001.png': 40,
+      'frame_002@80ms.png': 80,
+      'frame_003@2000ms.png': 1500,
+      'frame_010.png': 40
+    });
+
+    await fs.writeJson(path.join(blinkDir, 'timing.json'), { default: 0 });
+    expect((await new LayerProcessor(layersDir, 1).validateStructure()).errors)
+      .toEqual(['Invalid timing.json in Blink: "default" must be greater than or equal to 1']);
+    await fs.writeJson(path.join(blinkDir, 'timing.json'), { frames: { 'frame_004.png': 100 } });
+    expect((await new LayerProcessor(layersDir, 1).validateStructure()).errors)
+      .toEqual(['timing.json in Blink lists unknown frames: frame_004.png']);
+  });
+
+  it('should load front/back and declared parts as one split trait', async () => {
+    await addTrait('Hair/Long/front');
+    await addTrait('Hair/Long/back');
+    await addTrait('Cape/Red(3)/back');
+    await addTrait('Cape/Red(3)/clasp');
+    await fs.writeJson(path.join(layersDir, 'Cape', 'Red(3)', 'trait.json'), { render: { parts: { clasp: 4.5 } } });
+    await addTrait('Cape/Blue/back');
+    await addTrait('Cape/Blue/Dark');
+
+    const result = await new LayerProcessor(layersDir, 2).validateStructure();
+    expect(result.errors).toEqual(['Invalid structure: Blue mixes render parts (back) and sub-traits']);
+
+    await fs.remove(path.join(layersDir, 'Cape', 'Blue'));
+    const processor = new LayerProcessor(layersDir, 2);
+    expect((await processor.validateStructure()).errors).toEqual([]);
+
+    const [hair] = await processor.getAvailableTraits('Hair');
+    expect(hair.parts.map((part: any) => part.name).sort()).toEqual(['back', 'front']);
+    expect(hair.parts[0].frames).toEqual(['frame_001.png', 'frame_001.png']);
+
+    const [cape] = await processor.getAvailableTraits('Cape');
+    expect(cape).toMatchObject({ name: 'Red', weight: 3, render: { parts: { clasp: 4.5 } } });
+    expect(cape.parts.map((part: any) => part.name).sort()).toEqual(['back', 'clasp']);
+  });
+});
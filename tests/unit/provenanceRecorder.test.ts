@@ -0,0 +1,122 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { ProvenanceRecorder, getStartingIndex } from '../../src/core/ProvenanceRecorder';
+import { ConfigValidator } from '../../src/validators/configValidator';
+
+describe('ProvenanceRecorder', () => {
+  const config = new ConfigValidator().createDefaultConfig();
+  const ids = [1, 2, 3, 4, 5];
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'output-'));
+    for (const id of ids) {
+      await fs.outputFile(path.join(outputDir, 'animations', `${id}.gif`), `animation of token ${id}`);
+      await fs.outputFile(path.join(outputDir, 'frames', `${id}`, 'frame_001.png'), `frame of token ${id}`);
+      await fs.outputJson(path.join(outputDir, 'metadata', 'ethereum', `${id}.json`), {
+        name: `${config.metadata.name_prefix} #${id}`,
+        image: `${config.metadata.image_base_uri}${id}.gif`,
+        attributes: [{ trait_type: 'Body', value: `Body ${id}` }]
+      });
+    }
+  });
+
+  afterEach(async () => {
+    await fs.remove(outputDir);
+  });
+
+  it('should hash every animation in token order', async () => {
+    const record = await new ProvenanceRecorder(config, outputDir).record();
+
+    expect(record.tokens.map(token => token.token_id)).toEqual(ids);
+    expect(record.provenance_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await fs.readJson(path.join(outputDir, 'provenance.json'))).toEqual(record);
+    expect((await new ProvenanceRecorder(config, outputDir).verify()).isValid).toBe(true);
+  });
+
+  it('should rotate every token file by the starting index on reveal', async () => {
+    const recorder = new ProvenanceRecorder(config, outputDir);
+    const { provenance_hash } = await recorder.record();
+    const value = 'block 0xabc';
+    const startingIndex = getStartingIndex(value, ids.length);
+
+    const record = await recorder.reveal(value);
+
+    expect(record.reveal!.starting_index).toBe(startingIndex);
+    expect(record.provenance_hash).toBe(provenance_hash);
+    const newId = ids[startingIndex % ids.length]!;
+    expect(await fs.readFile(path.join(outputDir, 'animations', `${newId}.gif`), 'utf8')).toBe('animation of token 1');
+    expect(await fs.readFile(path.join(outputDir, 'frames', `${newId}`, 'frame_001.png'), 'utf8')).toBe('frame of token 1');
+    expect(await fs.readJson(path.join(outputDir, 'metadata', 'ethereum', `${newId}.json`))).toMatchObject({
+      name: `${config.metadata.name_prefix} #${newId}`,
+      image: `${config.metadata.image_base_uri}${newId}.gif`,
+      attributes: [{ trait_type: 'Body', value: 'Body 1' }]
+    });
+    expect((await recorder.verify()).isValid).toBe(true);
+    await expect(recorder.reveal('again')).rejects.toThrow('already revealed');
+  });
+
+  it('should leave pinned 1/1s and earlier phases out of the rotation', async () => {
+    const pinnedConfig = { ...config, one_of_ones: { path: 'one_of_ones', tokens: [{ source: 'king', token_id: 5, attributes: [] }] } };
+    // Tokens 1 and 2 come from the first phase
+    await fs.outputJson(path.join(outputDir, 'ethereum_collection_metadata.json'), {
+      phases: [{ seed: 'phase-1' }, { seed: 'phase-2', first_token_id: 3 }]
+    });
+    const recorder = new ProvenanceRecorder(pinnedConfig, outputDir);
+    expect((await recorder.record()).pinned_token_ids).toEqual([1, 2, 5]);
+
+    const value = 'block 0xabc';
+    const record = await recorder.reveal(value);
+
+    expect(record.reveal!.starting_index).toBe(getStartingIndex(value, 2));
+    for (const id of [1, 2, 5]) {
+      expect(await fs.readFile(path.join(outputDir, 'animations', `${id}.gif`), 'utf8')).toBe(`animation of token ${id}`);
+    }
+    expect(record.tokens.filter(token => token.index === 2 || token.index === 3).map(token => token.token_id).sort()).toEqual([3, 4]);
+    expect((await recorder.verify()).isValid).toBe(true);
+  });
+
+  // Move 3 fails while staging files under temporary names, move 13 while giving them their new names
+  it.each([3, 13])('should finish a reveal interrupted at move %i when it is run again', async failAt => {
+    const recorder = new ProvenanceRecorder(config, outputDir);
+    await recorder.record();
+    const value = 'block 0xdef';
+    const startingIndex = getStartingIndex(value, ids.length);
+
+    const move = fs.move;
+    let moved = 0;
+    const failing = jest.spyOn(fs, 'move').mockImplementation(((...args: Parameters<typeof fs.move>) => {
+      if (++moved === failAt) return Promise.reject(new Error('disk full'));
+      return (move as any)(...args);
+    }) as any);
+    await expect(recorder.reveal(value)).rejects.toThrow('disk full');
+    failing.mockRestore();
+
+    expect((await recorder.verify()).errors).toContain(`The reveal with "${value}" was interrupted; run it again with the same value to finish it`);
+    await expect(recorder.reveal('another value')).rejects.toThrow('must be finished with the same value');
+
+    await recorder.reveal(value);
+    const newId = ids[startingIndex % ids.length]!;
+    expect(await fs.readFile(path.join(outputDir, 'animations', `${newId}.gif`), 'utf8')).toBe('animation of token 1');
+    expect((await fs.readdir(path.join(outputDir, 'animations'))).filter(file => file.endsWith('.reveal'))).toEqual([]);
+    expect((await recorder.verify()).isValid).toBe(true);
+  });
+
+  it('should report animations that changed after recording', async () => {
+    const recorder = new ProvenanceRecorder(config, outputDir);
+    await recorder.record();
+    await fs.outputFile(path.join(outputDir, 'animations', '3.gif'), 'swapped');
+    await fs.outputFile(path.join(outputDir, 'animations', '6.gif'), 'extra');
+
+    const result = await recorder.verify();
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      expect.stringMatching(/^Token 3: hash [0-9a-f]+ doesn't match the recorded/),
+      'Token 6: animation is not in the provenance record',
+      expect.stringMatching(/^Provenance hash [0-9a-f]+ doesn't match the recorded/)
+    ]);
+    await expect(recorder.reveal('block')).rejects.toThrow('Animations no longer match the recorded provenance');
+  });
+});
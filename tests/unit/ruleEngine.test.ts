@@ -0,0 +1,98 @@
+import { RuleEngine, parseRuleExpression } from '../../src/core/RuleEngine';
+import { createConfig } from '../fixtures';
+import { Trait } from '../../src/types/traits';
+import { GeneratorError } from '../../src/types/errors';
+
+const trait = (type: string, name: string, extra: Partial<Trait> = {}): Trait =>
+  ({ type, name, weight: 1, path: '', frames: ['frame_001.png'], ...extra });
+
+const layers = new Map<string, Trait[]>([
+  ['Body', [trait('Body', 'Human'), trait('Body', 'Robot')]],
+  ['Hat', [trait('Hat', 'Cowboy'), trait('Hat', 'Crown'), trait('Hat', 'None', { frames: [], empty: true })]],
+  ['Eyes', [trait('Eyes', 'Laser'), trait('Eyes', 'Visor'), trait('Eyes', 'Plain')]]
+]);
+const pick = (type: string, name: string) => layers.get(type)!.find(t => t.name === name)!;
+const names = (traits: Trait[]) => traits.map(t => t.name);
+
+describe('RuleEngine', () => {
+  it('should parse NOT before AND before OR', () => {
+    const expression = parseRuleExpression('Hat:Top Hat OR Body:Robot AND NOT (Eyes:Laser)', 'rules[0].if');
+
+    expect(expression).toMatchObject({
+      kind: 'or',
+      operands: [
+        { kind: 'atom', traitType: 'Hat', pattern: 'Top Hat' },
+        { kind: 'and', operands: [{ kind: 'atom', key: 'Body:Robot' }, { kind: 'not', operand: { kind: 'atom', key: 'Eyes:Laser' } }] }
+      ]
+    });
+  });
+
+  it('should report syntax errors with the rule they come from', () => {
+    const error = (() => {
+      try {
+        return parseRuleExpression('Body:Robot AND (Hat:Crown', 'rules[2].if');
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(GeneratorError);
+    expect((error as GeneratorError).message).toBe('rules[2].if: missing ")" in "Body:Robot AND (Hat:Crown"');
+  });
+
+  it('should require traits once the condition holds', () => {
+    const engine = new RuleEngine(createConfig({
+      rules: [{ if: 'Body:Robot AND Hat:*', require: 'Eyes:Laser OR Eyes:Visor' }]
+    }), layers);
+    const eyes = layers.get('Eyes')!;
+
+    const withCrown = engine.filterCandidates('Eyes', eyes, [pick('Body', 'Robot'), pick('Hat', 'Crown')]);
+    expect(names(withCrown.traits)).toEqual(['Laser', 'Visor']);
+    expect([...withCrown.culprits]).toEqual([0, 1]);
+
+    // The wildcard never matches the empty slot of an optional layer
+    const bareHeaded = engine.filterCandidates('Eyes', eyes, [pick('Body', 'Robot'), pick('Hat', 'None')]);
+    expect(names(bareHeaded.traits)).toEqual(['Laser', 'Visor', 'Plain']);
+  });
+
+  it('should compile the legacy rule maps', () => {
+    const engine = new RuleEngine(createConfig({
+      incompatible_traits: { 'Eyes:Laser': ['Body:Human'] },
+      forced_pairings: { 'Body:Robot': ['Hat:Crown'] },
+      conditional_rarity: { 'Body:Human': { 'Eyes:Visor': 0 } }
+    }), layers);
+
+    expect(names(engine.filterCandidates('Hat', layers.get('Hat')!, [pick('Body', 'Robot')]).traits)).toEqual(['Crown']);
+
+    const humanEyes = engine.filterCandidates('Eyes', layers.get('Eyes')!, [pick('Body', 'Human'), pick('Hat', 'Cowboy')]);
+    expect(names(humanEyes.traits)).toEqual(['Plain']);
+    expect(humanEyes.reasons).toEqual([
+      'incompatible_traits: "Eyes:Laser" excludes "Body:Human"',
+      'conditional_rarity: "Body:Human" sets the weight of "Eyes:Visor" to 0'
+    ]);
+  });
+
+  it('should keep the trait type of legacy rule targets', () => {
+    const metals = new Map<string, Trait[]>([
+      ['Body', layers.get('Body')!],
+      ['Background', [trait('Background', 'Gold'), trait('Background', 'Blue')]],
+      ['Hat', [trait('Hat', 'Gold'), trait('Hat', 'Cowboy')]]
+    ]);
+    const robot = metals.get('Body')![1]!;
+    const [goldBackground, blueBackground] = metals.get('Background')!;
+    const config = createConfig({ trait_processing_order: ['Body', 'Background', 'Hat'] });
+
+    // "Hat:Gold" must not also force the Background named Gold
+    const forced = new RuleEngine({ ...config, forced_pairings: { 'Body:Robot': ['Hat:Gold'] } }, metals);
+    expect(names(forced.filterCandidates('Background', metals.get('Background')!, [robot]).traits)).toEqual(['Gold', 'Blue']);
+    expect(names(forced.filterCandidates('Hat', metals.get('Hat')!, [robot, blueBackground!]).traits)).toEqual(['Gold']);
+
+    // Only Hat:Gold and Background:Blue are in the group, not Background:Gold
+    const grouped = new RuleEngine({
+      ...config,
+      exclusive_groups: { metals: ['Background', 'Hat', 'Hat:Gold', 'Background:Blue'] }
+    }, metals);
+    expect(names(grouped.filterCandidates('Hat', metals.get('Hat')!, [robot, goldBackground!]).traits)).toEqual(['Gold', 'Cowboy']);
+    expect(names(grouped.filterCandidates('Hat', metals.get('Hat')!, [robot, blueBackground!]).traits)).toEqual(['Cowboy']);
+  });
+});
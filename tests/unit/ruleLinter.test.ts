@@ -0,0 +1,141 @@
+import { RuleLinter } from '../../src/validators/ruleLinter';
+import { createConfig } from '../fixtures';
+import { TraitHierarchy } from '../../src/types/traits';
+
+const leaf = (weight = 1) => ({ weight, path: '', frames: ['frame_001.png'] });
+
+const hierarchy: TraitHierarchy = {
+  Body: { Human: leaf(), Robot: leaf() },
+  Hat: {
+    Crown: { weight: 2, path: '', frames: [], subTraits: { Gold: leaf(), Silver: leaf() } as any },
+    Cowboy: leaf()
+  },
+  Eyes: { Laser: leaf(), Gold: leaf() }
+};
+
+describe('RuleLinter', () => {
+  it('should pass rules that resolve against the layers', () => {
+    const result = new RuleLinter(createConfig({
+      incompatible_traits: { 'Body:Robot': ['Hat:Cowboy'] },
+      forced_pairings: { 'Body:Human': ['Hat:Silver'] },
+      conditional_rarity: { Laser: { 'Hat:Cowboy': 0.5 } }
+    })).lint(hierarchy);
+
+    expect(result.isValid).toBe(true);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should flag unknown types, unknown names and ambiguous keys', () => {
+    const result = new RuleLinter(createConfig({
+      incompatible_traits: { 'Bodyy:Robot': ['Hat:Cowbow'], Gold: ['Lazer'] }
+    })).lint(hierarchy);
+
+    expect(result.errors).toEqual([
+      'incompatible_traits: "Bodyy:Robot" uses unknown trait type "Bodyy"',
+      'incompatible_traits["Bodyy:Robot"]: "Hat:Cowbow" does not match any "Hat" trait',
+      'incompatible_traits["Gold"]: "Lazer" does not match any trait'
+    ]);
+    expect(result.warnings).toEqual([
+      'incompatible_traits: "Gold" is ambiguous and matches Hat:Gold, Eyes:Gold; use a Type:Name key'
+    ]);
+  });
+
+  it('should flag forced pairings to incompatible traits', () => {
+    const result = new RuleLinter(createConfig({
+      incompatible_traits: { 'Hat:Cowboy': ['Body:Robot'] },
+      forced_pairings: { 'Body:Robot': ['Hat:Cowboy'] }
+    })).lint(hierarchy);
+
+    expect(result.errors).toContain('forced_pairings: "Body:Robot" forces "Hat:Cowboy", but incompatible_traits forbids that pair');
+  });
+
+  it('should flag dependency cycles and out-of-range conditional weights', () => {
+    const result = new RuleLinter(createConfig({
+      forced_pairings: { 'Body:Robot': ['Hat:Cowboy'] },
+      dependent_traits: { 'Hat:Cowboy': 'Eyes:Laser', 'Eyes:Laser': 'Body:Robot' },
+      conditional_rarity: { 'Body:Human': { 'Eyes:Laser': 5 } }
+    })).lint(hierarchy);
+
+    expect(result.errors).toEqual([
+      'conditional_rarity["Body:Human"]: weight 5 for "Eyes:Laser" is outside 0-1',
+      'dependency cycle: Body:Robot -> Hat:Cowboy -> Eyes:Laser -> Body:Robot'
+    ]);
+  });
+
+  it('should flag syntax errors and unknown keys in rule expressions', () => {
+    const result = new RuleLinter(createConfig({
+      rules: [
+        { if: 'Body:Robot AND (Hat:*', require: 'Eyes:Laser' },
+        { if: 'Hat:Crown*', forbid: 'Eyes:Lazer OR Mask:*', reweight: { 'Eyes:Gold': 0.2 } }
+      ]
+    })).lint(hierarchy);
+
+    expect(result.errors).toEqual([
+      'rules[0].if: missing ")" in "Body:Robot AND (Hat:*"',
+      'rules[1].if: "Hat:Crown*" does not match any trait',
+      'rules[1].forbid: "Eyes:Lazer" does not match any "Eyes" trait',
+      'rules[1].forbid: "Mask:*" uses unknown trait type "Mask"'
+    ]);
+  });
+
+  it('should flag unknown layers, traits and parts in render settings', () => {
+    const result = new RuleLinter(createConfig({
+      render_order: ['Eyes', 'Mask', 'Body'],
+      z_index: { '#Crown': 3, 'Eyes:Lazer': 0.5 },
+      render_parts: { Cape: { back: 0.5 }, Hat: { back: 0.5 } }
+    })).lint(hierarchy);
+
+    expect(result.errors).toEqual([
+      'render_order: unknown trait type "Mask"',
+      'z_index: "Eyes:Lazer" does not match any "Eyes" trait',
+      'render_parts: unknown trait type "Cape"'
+    ]);
+    expect(result.warnings).toEqual(['render_parts["Hat"]: no "Hat" trait has a "back" part']);
+  });
+
+  it('should treat variant folders as traits and flag missing variants', () => {
+    const withClothes: TraitHierarchy = {
+      ...hierarchy,
+      Clothes: {
+        Hoodie: { weight: 1, path: '', frames: [], subTraits: { Human: leaf(), Robot: leaf() } as any },
+        Cape: { weight: 1, path: '', frames: [], subTraits: { Human: leaf() } as any }
+      }
+    };
+    const result = new RuleLinter(createConfig({
+      trait_processing_order: ['Body', 'Hat', 'Eyes', 'Clothes'],
+      variant_by: { Clothes: 'Body', Eyes: 'Eyes' },
+      incompatible_traits: { 'Clothes:Hoodie': ['Hat:Cowboy'] }
+    })).lint(withClothes);
+
+    expect(result.errors).toEqual(['variant_by["Eyes"]: "Eyes" can\'t pick variants, it is the same layer']);
+    expect(result.warnings).toEqual(['variant_by["Clothes"]: "Clothes:Cape" has no variant for Body:Robot, so it is never selected with them']);
+  });
+
+  it('should flag traits without a rarity tier', () => {
+    const result = new RuleLinter(createConfig({
+      rarity_tiers: {
+        Hat: { weights: { Common: 10, Rare: 1 }, traits: { Common: ['Hat:Cowboy'], Epic: ['Hat:Gold'] } },
+        Eyes: { weights: { Common: 1 }, traits: { Common: ['Eyes:*'] } }
+      }
+    })).lint(hierarchy);
+
+    expect(result.errors).toEqual([
+      'rarity_tiers["Hat"].traits: tier "Epic" has no weight',
+      'rarity_tiers["Hat"]: "Hat:Gold" is in tier "Epic", which has no weight',
+      'rarity_tiers["Hat"]: "Hat:Silver" has no tier and would never be selected'
+    ]);
+  });
+
+  it('should resolve tags from categories and trait_tags', () => {
+    const result = new RuleLinter(createConfig({
+      trait_tags: { shiny: ['Eyes:Gold', 'Hat:Gold'] },
+      incompatible_traits: { '#Crown': ['Eyes:Laser'], '#shiny': ['#sparkly'] },
+      forced_pairings: { 'Hat:Silver': ['Eyes:Laser'] }
+    })).lint(hierarchy);
+
+    expect(result.errors).toEqual([
+      'incompatible_traits["#shiny"]: "#sparkly" uses unknown tag "#sparkly"',
+      'forced_pairings: "Hat:Silver" forces "Eyes:Laser", but incompatible_traits forbids that pair'
+    ]);
+  });
+});
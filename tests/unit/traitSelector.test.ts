@@ -0,0 +1,445 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { TraitSelector } from '../../src/core/TraitSelector';
+import { LayerProcessor } from '../../src/core/LayerProcessor';
+import { createConfig } from '../fixtures';
+import { GeneratorConfig } from '../../src/types/config';
+import { GeneratorError, ErrorType } from '../../src/types/errors';
+
+// Builds a layers folder where every trait is a single (empty) PNG frame
+async function createLayers(root: string, layers: Record<string, string[]>): Promise<void> {
+  for (const [traitType, traits] of Object.entries(layers)) {
+    for (const trait of traits) {
+      const traitDir = path.join(root, traitType, trait);
+      await fs.ensureDir(traitDir);
+      await fs.writeFile(path.join(traitDir, 'frame_001.png'), '');
+    }
+  }
+}
+
+describe('TraitSelector', () => {
+  let layersDir: string;
+  let layerProcessor: LayerProcessor;
+
+  beforeEach(async () => {
+    layersDir = await fs.mkdtemp(path.join(os.tmpdir(), 'layers-'));
+    await createLayers(layersDir, {
+      Body: ['Human(1000)', 'Robot(1)'],
+      Hat: ['Cowboy', 'Crown'],
+      Eyes: ['Laser', 'Visor', 'Plain']
+    });
+    layerProcessor = new LayerProcessor(layersDir, 1);
+    await layerProcessor.validateStructure();
+  });
+
+  afterEach(async () => {
+    await fs.remove(layersDir);
+  });
+
+  const keysOf = (selector: TraitSelector, count: number) =>
+    selector.generateCombinations(count).then(combos =>
+      combos.map(c => c.traits.map(t => `${t.type}:${t.name}`).join('|'))
+    );
+  // Share of `samples` single-token collections, each with its own seed, whose first trait is `name`
+  const pickRate = async (config: GeneratorConfig, processor: LayerProcessor, name: string, samples = 2000) => {
+    let picks = 0;
+    for (let i = 0; i < samples; i++) {
+      const selector = new TraitSelector(config, processor);
+      selector.useSeed(`sample-${i}`);
+      const [combination] = await selector.generateCombinations(1);
+      if (combination!.traits[0]!.name === name) picks++;
+    }
+    return picks / samples;
+  };
+
+  it('should produce the same collection for the same seed', async () => {
+    const config = createConfig({});
+    const first = new TraitSelector(config, layerProcessor);
+    const second = new TraitSelector(config, layerProcessor);
+    first.useSeed('audit-seed');
+    second.useSeed('audit-seed');
+
+    expect(await keysOf(first, 6)).toEqual(await keysOf(second, 6));
+  });
+
+  it('should backtrack to a rare trait when rules leave no other option', async () => {
+    const config = createConfig({
+      incompatible_traits: {
+        'Body:Human': ['Hat:Cowboy', 'Hat:Crown']
+      }
+    });
+    const selector = new TraitSelector(config, layerProcessor);
+    selector.useSeed('backtrack');
+
+    const combinations = await selector.generateCombinations(3);
+    expect(combinations).toHaveLength(3);
+    combinations.forEach(c => expect(c.traits[0]!.name).toBe('Robot'));
+  });
+
+  it('should stop at the number of unique combinations available', async () => {
+    const config = createConfig({
+      forced_pairings: { 'Body:Robot': ['Hat:Crown'] },
+      incompatible_traits: { 'Body:Human': ['Eyes:Laser', 'Eyes:Visor'] }
+    });
+    const selector = new TraitSelector(config, layerProcessor);
+    selector.useSeed('exhaust');
+
+    // Human: 2 hats x 1 eye; Robot: 1 hat x 3 eyes
+    const combinations = await selector.generateCombinations(10);
+    expect(combinations).toHaveLength(5);
+  });
+
+  it('should count the unique combinations the rules allow', async () => {
+    const config = createConfig({
+      forced_pairings: { 'Body:Robot': ['Hat:Crown'] },
+      incompatible_traits: { 'Body:Human': ['Eyes:Laser', 'Eyes:Visor'] }
+    });
+    const selector = new TraitSelector(config, layerProcessor);
+
+    const report = await selector.analyzeCapacity();
+    expect(report.unconstrained).toBe(12);
+    expect(report.capacity).toBe(5);
+  });
+
+  it('should honour trait quotas exactly across the run', async () => {
+    const config = createConfig({
+      trait_quotas: { 'Body:Robot': 4, 'Eyes:Laser': 1, 'Hat:Crown': 3 }
+    });
+    const selector = new TraitSelector(config, layerProcessor);
+    selector.useSeed('quotas');
+
+    const combinations = await selector.generateCombinations(6);
+    const count = (key: string) => combinations.filter(c => c.traits.some(t => `${t.type}:${t.name}` === key)).length;
+    expect(combinations).toHaveLength(6);
+    expect(count('Body:Robot')).toBe(4);
+    expect(count('Eyes:Laser')).toBe(1);
+    expect(count('Hat:Crown')).toBe(3);
+  });
+
+  it('should reject quotas that cannot be satisfied together', async () => {
+    const config = createConfig({
+      trait_quotas: { 'Hat:Cowboy': 3, 'Hat:Crown': 2, 'Eyes:Laser': 4, 'Body:Robot': 3 },
+      incompatible_traits: { 'Body:Robot': ['Eyes:Laser'] }
+    });
+    const selector = new TraitSelector(config, layerProcessor);
+
+    const error = await selector.generateCombinations(6).catch(e => e);
+    expect(error).toBeInstanceOf(GeneratorError);
+    expect(error.message).toContain('every "Hat" trait has a quota but they only add up to 5 of 6 tokens');
+    expect(error.message).toContain('incompatible "Body:Robot" (3) and "Eyes:Laser" (4) need more than 6 tokens');
+  });
+
+  describe('quotas together with rules', () => {
+    let ruleLayersDir: string;
+    let ruleLayers: LayerProcessor;
+
+    const createRuleConfig = (overrides: Partial<GeneratorConfig>): GeneratorConfig => createConfig({
+      trait_processing_order: ['Background', 'Body', 'Hat'],
+      incompatible_traits: { 'Body:Robot': ['Hat:Gold'] },
+      ...overrides
+    });
+
+    beforeEach(async () => {
+      ruleLayersDir = await fs.mkdtemp(path.join(os.tmpdir(), 'layers-'));
+      await createLayers(ruleLayersDir, {
+        Background: ['Red', 'Blue', 'Green', 'Pink', 'Gray', 'Teal', 'Sand', 'Navy', 'Lime', 'Plum'],
+        Body: ['Human', 'Robot'],
+        Hat: ['Cowboy', 'Gold', 'None']
+      });
+      ruleLayers = new LayerProcessor(ruleLayersDir, 1);
+      await ruleLayers.validateStructure();
+    });
+
+    afterEach(async () => {
+      await fs.remove(ruleLayersDir);
+    });
+
+    it('should meet quotas that only fit around an incompatibility', async () => {
+      // Every Robot must go without Gold, so the other 5 tokens are exactly the Gold Humans
+      const config = createRuleConfig({ trait_quotas: { 'Body:Robot': 5, 'Hat:Gold': 5 } });
+
+      for (const seed of ['a', 'b', 'c']) {
+        const selector = new TraitSelector(config, ruleLayers);
+        selector.useSeed(seed);
+        const combinations = await selector.generateCombinations(10);
+        const keys = combinations.map(c => c.traits.map(t => `${t.type}:${t.name}`));
+
+        expect(combinations).toHaveLength(10);
+        expect(keys.filter(k => k.includes('Body:Robot'))).toHaveLength(5);
+        expect(keys.filter(k => k.includes('Hat:Gold'))).toHaveLength(5);
+        expect(keys.filter(k => k.includes('Body:Robot') && k.includes('Hat:Gold'))).toHaveLength(0);
+      }
+    });
+
+    it('should reject up front a quota the rules leave too few combinations for', async () => {
+      // Red only has 3 Human and 2 Robot combinations without Robot+Gold
+      const config = createRuleConfig({ trait_quotas: { 'Hat:Gold': 6, 'Background:Red': 6, 'Body:Human': 6 } });
+      const selector = new TraitSelector(config, ruleLayers);
+
+      const error = await selector.generateCombinations(12).catch(e => e);
+      expect(error).toBeInstanceOf(GeneratorError);
+      expect(error.type).toBe(ErrorType.CONFIG_ERROR);
+      expect(error.message).toContain('"Background:Red" needs 6 tokens but only 5 unused combinations allowed by the rules contain it');
+    });
+
+    it('should reject quotas that only fail together', async () => {
+      // Each quota fits on its own, but Gold forces Human so Red Robots can't make up the Red quota
+      const config = createRuleConfig({ trait_quotas: { 'Hat:Gold': 10, 'Background:Red': 5, 'Body:Human': 10 } });
+      const selector = new TraitSelector(config, ruleLayers);
+
+      const error = await selector.generateCombinations(12).catch(e => e);
+      expect(error).toBeInstanceOf(GeneratorError);
+      expect(error.message).toContain("the quotas can't all be met together");
+    });
+
+    it('should meet the same quotas without the incompatibility', async () => {
+      const config = createRuleConfig({
+        incompatible_traits: {},
+        trait_quotas: { 'Hat:Gold': 6, 'Background:Red': 6, 'Body:Human': 6 }
+      });
+      const selector = new TraitSelector(config, ruleLayers);
+      selector.useSeed('free');
+
+      const combinations = await selector.generateCombinations(12);
+      const count = (key: string) => combinations.filter(c => c.traits.some(t => `${t.type}:${t.name}` === key)).length;
+      expect(combinations).toHaveLength(12);
+      expect(count('Hat:Gold')).toBe(6);
+      expect(count('Background:Red')).toBe(6);
+      expect(count('Body:Human')).toBe(6);
+    });
+  });
+
+  it('should reject a quota larger than the unique combinations containing it', async () => {
+    // Crown is Human only: 3 combinations, one per Eyes trait
+    const config = createConfig({
+      trait_quotas: { 'Hat:Crown': 5 },
+      incompatible_traits: { 'Body:Robot': ['Hat:Crown'] }
+    });
+    const selector = new TraitSelector(config, layerProcessor);
+
+    const error = await selector.generateCombinations(6).catch(e => e);
+    expect(error).toBeInstanceOf(GeneratorError);
+    expect(error.message).toContain('"Hat:Crown" needs 5 tokens but only 3 unused combinations allowed by the rules contain it');
+  });
+
+  it('should explain which rules make the request impossible', async () => {
+    const config = createConfig({
+      forced_pairings: {
+        'Body:Human': ['Hat:Crown'],
+        'Body:Robot': ['Hat:Crown']
+      },
+      incompatible_traits: { 'Hat:Crown': ['Eyes:Laser', 'Eyes:Visor', 'Eyes:Plain'] }
+    });
+    const selector = new TraitSelector(config, layerProcessor);
+
+    const error = await selector.generateCombinations(1).catch(e => e);
+    expect(error).toBeInstanceOf(GeneratorError);
+    expect(error.type).toBe(ErrorType.CONFIG_ERROR);
+    expect(error.message).toContain('Layer "Eyes" has no selectable trait');
+    expect(error.message).toContain('incompatible_traits: "Hat:Crown" excludes "Eyes:Laser"');
+  });
+
+  it('should roll category folders by their own weight before their variants', async () => {
+    const nestedDir = await fs.mkdtemp(path.join(os.tmpdir(), 'layers-'));
+    try {
+      await createLayers(nestedDir, {
+        Hat: ['Cowboy(1)', 'Crown(1)/Gold', 'Crown(1)/Silver', 'Crown(1)/Bronze', 'Crown(1)/Jade']
+      });
+      const nestedProcessor = new LayerProcessor(nestedDir, 1);
+      await nestedProcessor.validateStructure();
+
+      const config = createConfig({ trait_processing_order: ['Hat'] });
+      config.metadata.category_attributes = { enabled: true, label: '{type} Category' };
+      const selector = new TraitSelector(config, nestedProcessor);
+      selector.useSeed('nested');
+
+      const cowboys = await pickRate(config, nestedProcessor, 'Cowboy');
+      // Flattened selection would give Cowboy 1 in 5
+      expect(cowboys).toBeGreaterThan(0.45);
+      expect(cowboys).toBeLessThan(0.55);
+
+      const combinations = await selector.generateCombinations(5);
+      const gold = combinations.find(c => c.traits[0]!.name === 'Gold')!;
+      expect(gold.metadata.ethereum.attributes).toEqual([
+        { trait_type: 'Hat', value: 'Gold' },
+        { trait_type: 'Hat Category', value: 'Crown' }
+      ]);
+    } finally {
+      await fs.remove(nestedDir);
+    }
+  });
+
+  it('should leave optional layers empty by their none weight', async () => {
+    const config = createConfig({
+      optional_layers: { Hat: { none_weight: 1000 }, Eyes: { none_weight: 1000, none_label: 'No Eyes' } }
+    });
+    const selector = new TraitSelector(config, layerProcessor);
+    selector.useSeed('optional');
+
+    const [combination] = await selector.generateCombinations(1);
+    expect(combination!.traits.map(t => t.empty)).toEqual([undefined, true, true]);
+    expect(combination!.metadata.ethereum.attributes).toEqual([
+      { trait_type: 'Body', value: 'Human' },
+      { trait_type: 'Eyes', value: 'No Eyes' }
+    ]);
+  });
+
+  it('should keep every token the minimum distance apart', async () => {
+    const config = createConfig({ uniqueness: { min_distance: 2, ignore_types: ['Body'] } });
+    const selector = new TraitSelector(config, layerProcessor);
+    selector.useSeed('distance');
+
+    // Hat and Eyes are the only counted layers, so no two tokens may share a hat or eyes
+    const combinations = await selector.generateCombinations(10);
+    expect(combinations).toHaveLength(2);
+    const [a, b] = combinations.map(c => c.traits.slice(1).map(t => t.name));
+    expect(a![0]).not.toBe(b![0]);
+    expect(a![1]).not.toBe(b![1]);
+  });
+
+  it('should expand #tag references in the rule maps', async () => {
+    const config = createConfig({
+      trait_tags: { headwear: ['Hat:*'], beams: ['Eyes:Laser', 'Eyes:Visor'] },
+      incompatible_traits: { 'Body:Robot': ['#headwear'], '#beams': ['Hat:Crown'] }
+    });
+    const selector = new TraitSelector(config, layerProcessor);
+    selector.useSeed('tags');
+
+    expect(await selector.getTagExpansion()).toEqual({
+      headwear: ['Hat:Cowboy', 'Hat:Crown'],
+      beams: ['Eyes:Laser', 'Eyes:Visor']
+    });
+
+    // Robots can't wear any hat, and crowns only go with plain eyes: 3 + 1 combinations
+    const combinations = await selector.generateCombinations(10);
+    expect(combinations).toHaveLength(4);
+    combinations.forEach(c => expect(c.traits[0]!.name).toBe('Human'));
+  });
+
+  it('should keep new tokens unique against an existing collection', async () => {
+    const config = createConfig({});
+    const attrs = (body: string, hat: string, eyes: string) => [
+      { trait_type: 'Body', value: body }, { trait_type: 'Hat', value: hat }, { trait_type: 'Eyes', value: eyes }
+    ];
+    const existing = ['Human', 'Robot'].flatMap(body => ['Cowboy', 'Crown'].flatMap(hat =>
+      ['Laser', 'Visor'].map(eyes => attrs(body, hat, eyes))));
+    // A trait that was removed since can't collide with anything
+    existing.push(attrs('Human', 'Cowboy', 'Monocle'));
+
+    const selector = new TraitSelector(config, layerProcessor);
+    selector.useSeed('extend');
+    expect(await selector.addExistingTokens(existing)).toBe(8);
+
+    const keys = await keysOf(selector, 10);
+    expect(keys.sort()).toEqual([
+      'Body:Human|Hat:Cowboy|Eyes:Plain',
+      'Body:Human|Hat:Crown|Eyes:Plain',
+      'Body:Robot|Hat:Cowboy|Eyes:Plain',
+      'Body:Robot|Hat:Crown|Eyes:Plain'
+    ]);
+  });
+
+  it('should roll the rarity tier before the trait within it', async () => {
+    const tierDir = await fs.mkdtemp(path.join(os.tmpdir(), 'layers-'));
+    try {
+      await createLayers(tierDir, { Hat: ['Cowboy(5)', 'Cap', 'Beanie', 'Crown'] });
+      await fs.writeJson(path.join(tierDir, 'Hat', 'Crown', 'trait.json'), { tier: 'Legendary' });
+      const tierProcessor = new LayerProcessor(tierDir, 1);
+      await tierProcessor.validateStructure();
+
+      const config = createConfig({
+        trait_processing_order: ['Hat'],
+        rarity_tiers: { Hat: { weights: { Common: 3, Legendary: 1 }, traits: { Common: ['Cowboy', 'Cap', 'Beanie'] } } }
+      });
+      config.metadata.tier_attributes = { enabled: true, label: '{type} Tier' };
+      const selector = new TraitSelector(config, tierProcessor);
+      selector.useSeed('tiers');
+
+      const crowns = await pickRate(config, tierProcessor, 'Crown');
+      // Raw weights would give the crown 1 in 8
+      expect(crowns).toBeGreaterThan(0.2);
+      expect(crowns).toBeLessThan(0.3);
+
+      const combinations = await selector.generateCombinations(4);
+      const crown = combinations.find(c => c.traits[0]!.name === 'Crown')!;
+      expect(crown.metadata.ethereum.attributes).toEqual([
+        { trait_type: 'Hat', value: 'Crown' },
+        { trait_type: 'Hat Tier', value: 'Legendary' }
+      ]);
+      expect(await selector.getTraitTiers()).toEqual({ Hat: { Cowboy: 'Common', Cap: 'Common', Beanie: 'Common', Crown: 'Legendary' } });
+    } finally {
+      await fs.remove(tierDir);
+    }
+  });
+
+  it('should never select the traits of a tier weighted 0', async () => {
+    const tierDir = await fs.mkdtemp(path.join(os.tmpdir(), 'layers-'));
+    try {
+      await createLayers(tierDir, { Hat: ['Cowboy', 'Cap', 'Beanie', 'Crown'] });
+      const config = createConfig({
+        trait_processing_order: ['Hat'],
+        rarity_tiers: { Hat: { weights: { Common: 1, Legendary: 0 }, traits: { Common: ['Cowboy', 'Cap', 'Beanie'], Legendary: ['Crown'] } } }
+      });
+      const tierProcessor = new LayerProcessor(tierDir, 1);
+      await tierProcessor.validateStructure();
+      const selector = new TraitSelector(config, tierProcessor);
+      selector.useSeed('zero-tier');
+
+      expect((await selector.analyzeCapacity()).capacity).toBe(3);
+      const combinations = await selector.generateCombinations(4);
+      expect(combinations.map(c => c.traits[0]!.name).sort()).toEqual(['Beanie', 'Cap', 'Cowboy']);
+    } finally {
+      await fs.remove(tierDir);
+    }
+  });
+
+  it('should pick variant-by assets for the selected body', async () => {
+    const variantDir = await fs.mkdtemp(path.join(os.tmpdir(), 'layers-'));
+    try {
+      await createLayers(variantDir, {
+        Body: ['Human', 'Robot'],
+        Clothes: ['Hoodie/Human', 'Hoodie/Robot', 'Cape/Human']
+      });
+      const config = createConfig({ trait_processing_order: ['Clothes', 'Body'], variant_by: { Clothes: 'Body' } });
+      const variantProcessor = new LayerProcessor(variantDir, 1, config.variant_by);
+      await variantProcessor.validateStructure();
+      const selector = new TraitSelector(config, variantProcessor);
+      selector.useSeed('variants');
+
+      // The cape has no robot variant: Hoodie x 2 + Cape x 1
+      const combinations = await selector.generateCombinations(5);
+      expect(combinations).toHaveLength(3);
+      for (const combination of combinations) {
+        const [clothes, body] = combination.traits;
+        expect(clothes!.path).toBe(path.join(variantDir, 'Clothes', clothes!.name, body!.name));
+        expect(clothes!.variants).toBeUndefined();
+      }
+      expect(combinations.map(c => c.metadata.ethereum.attributes[0].value).sort()).toEqual(['Cape', 'Hoodie', 'Hoodie']);
+    } finally {
+      await fs.remove(variantDir);
+    }
+  });
+
+  it('should match variant folders to weighted variant-by traits by their clean name', async () => {
+    const variantDir = await fs.mkdtemp(path.join(os.tmpdir(), 'layers-'));
+    try {
+      await createLayers(variantDir, {
+        Body: ['Human', 'Robot#2'],
+        Clothes: ['Hoodie/Human', 'Hoodie/Robot']
+      });
+      const config = createConfig({ trait_processing_order: ['Clothes', 'Body'], variant_by: { Clothes: 'Body' } });
+      const variantProcessor = new LayerProcessor(variantDir, 1, config.variant_by);
+      await variantProcessor.validateStructure();
+      const selector = new TraitSelector(config, variantProcessor);
+      selector.useSeed('weighted-variants');
+
+      const combinations = await selector.generateCombinations(2);
+      expect(combinations).toHaveLength(2);
+      const robot = combinations.find(c => c.traits[1]!.name === 'Robot#2');
+      expect(robot!.traits[0]!.path).toBe(path.join(variantDir, 'Clothes', 'Hoodie', 'Robot'));
+    } finally {
+      await fs.remove(variantDir);
+    }
+  });
+});
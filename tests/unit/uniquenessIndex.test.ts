@@ -0,0 +1,80 @@
+import { UniquenessIndex } from '../../src/core/UniquenessIndex';
+import { Trait } from '../../src/types/traits';
+
+const token = (...traits: string[]): Trait[] =>
+  traits.map(trait => {
+    const [type, name] = trait.split(':') as [string, string];
+    return { type, name, weight: 1, path: '', frames: [] };
+  });
+
+describe('UniquenessIndex', () => {
+  it('should only reject exact duplicates by default', () => {
+    const index = new UniquenessIndex(undefined);
+    index.add(token('Background:Blue', 'Body:Human', 'Hat:Crown'));
+
+    expect(index.isTooClose(token('Background:Blue', 'Body:Human', 'Hat:Crown'))).toBe(true);
+    expect(index.isTooClose(token('Background:Red', 'Body:Human', 'Hat:Crown'))).toBe(false);
+  });
+
+  it('should require the minimum number of differing traits', () => {
+    const index = new UniquenessIndex({ min_distance: 2 });
+    index.add(token('Background:Blue', 'Body:Human', 'Hat:Crown'));
+
+    expect(index.isTooClose(token('Background:Red', 'Body:Human', 'Hat:Crown'))).toBe(true);
+    expect(index.isTooClose(token('Background:Red', 'Body:Robot', 'Hat:Crown'))).toBe(false);
+  });
+
+  it('should not count ignored trait types', () => {
+    const index = new UniquenessIndex({ min_distance: 1, ignore_types: ['Background'] });
+    index.add(token('Background:Blue', 'Body:Human', 'Hat:Crown'));
+
+    expect(index.isTooClose(token('Background:Red', 'Body:Human', 'Hat:Crown'))).toBe(true);
+    expect(index.countedPositions(token('Background:Red', 'Body:Human', 'Hat:Crown'))).toEqual([1, 2]);
+  });
+
+  it('should give the same answers when falling back to the block index', () => {
+    // C(30, 4) masks per token is over the index limit
+    const types = Array.from({ length: 30 }, (_, i) => `Layer${i}`);
+    const index = new UniquenessIndex({ min_distance: 5 });
+    index.add(token(...types.map(type => `${type}:A`)));
+
+    const fourChanged = types.map((type, i) => `${type}:${i < 4 ? 'B' : 'A'}`);
+    const fiveChanged = types.map((type, i) => `${type}:${i < 5 ? 'B' : 'A'}`);
+    expect(index.isTooClose(token(...fourChanged))).toBe(true);
+    expect(index.isTooClose(token(...fiveChanged))).toBe(false);
+  });
+
+  it('should stay fast and bounded in memory at 10k tokens', () => {
+    // C(12, 2) = 66 masks per token would pass the masked key limit part way through
+    const types = Array.from({ length: 12 }, (_, i) => `Layer${i}`);
+    const index = new UniquenessIndex({ min_distance: 3 });
+    let seed = 1;
+    const random = () => (seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0) / 4294967296;
+    const added: string[][] = [];
+
+    const heapBefore = process.memoryUsage().heapUsed;
+    const started = Date.now();
+    for (let attempt = 0; added.length < 10000 && attempt < 20000; attempt++) {
+      const names = types.map(type => `${type}:V${Math.floor(random() * 12)}`);
+      if (!index.isTooClose(token(...names))) {
+        index.add(token(...names));
+        added.push(names);
+      }
+    }
+    const elapsed = Date.now() - started;
+    const heapGrowth = process.memoryUsage().heapUsed - heapBefore;
+
+    expect(added).toHaveLength(10000);
+    expect(elapsed).toBeLessThan(20000);
+    expect(heapGrowth).toBeLessThan(200 * 1024 * 1024);
+
+    // Spot-check random selections, and ones a trait away from a token, against every token
+    const distance = (a: string[], b: string[]) => a.filter((name, i) => name !== b[i]).length;
+    for (let i = 0; i < 100; i++) {
+      const names = i % 2 === 0
+        ? types.map(type => `${type}:V${Math.floor(random() * 12)}`)
+        : added[i * 97]!.map((name, position) => (position === i % 12 ? `${types[position]}:Other` : name));
+      expect(index.isTooClose(token(...names))).toBe(added.some(existing => distance(existing, names) < 3));
+    }
+  });
+});